@@ -0,0 +1,298 @@
+#!/usr/bin/env node
+import {createLogger} from '@subsquid/logger'
+import * as fs from 'node:fs'
+import {ClickhouseClient} from './clickhouse/client'
+import {verifySchema} from './clickhouse/schema'
+import {BlockRef} from './common'
+import {DataSource, inspectDatabase, ProcessorArgs, runClickhouseProcessing, runCutover} from './clickhouse-processor'
+import {createPipelineSource, loadPipeline, Pipeline} from './pipeline'
+import {ProcessorStatus} from './status'
+import {runProgram} from './util/misc'
+
+
+const log = createLogger('core:cli')
+
+
+const USAGE = `Usage: core <command> [options]
+
+Commands:
+    run                                 run the pipeline
+    reindex --from <n> --to <n>         re-index the given block range
+            [--tables <a,b,...>]        (default: all tables)
+    reset --yes                         delete all data of the target database
+    cutover                             swap the target database with the live one
+                                        (processors of both databases must be stopped)
+    status                              print the processing head, the lag and row counts
+    check-schema                        validate the target database without processing
+
+Options:
+    --config <file>                     JSON config file (default: core.config.json, if exists)
+    --pipeline <module>                 pipeline module
+    --clickhouse <url>                  URL of the ClickHouse HTTP API (default: http://localhost:8123)
+    --database <name>                   target database
+    --live-database <name>              live database, that the target is going to replace
+    --portal <url>                      URL of the portal dataset
+    --status-port <port>                port of the metrics and status server
+
+Each option can be also set with an environment variable
+(CORE_CONFIG, PIPELINE, CLICKHOUSE_URL, CLICKHOUSE_DATABASE, CLICKHOUSE_LIVE_DATABASE, PORTAL_URL, STATUS_PORT)
+or with the camelCase key in the config file.
+Flags take precedence over environment variables, which take precedence over the config file.
+`
+
+
+interface Settings {
+    pipeline?: string
+    clickhouse: string
+    database?: string
+    liveDatabase?: string
+    portal?: string
+    statusPort?: number
+}
+
+
+const SETTINGS: {key: keyof Settings, flag: string, env: string}[] = [
+    {key: 'pipeline', flag: 'pipeline', env: 'PIPELINE'},
+    {key: 'clickhouse', flag: 'clickhouse', env: 'CLICKHOUSE_URL'},
+    {key: 'database', flag: 'database', env: 'CLICKHOUSE_DATABASE'},
+    {key: 'liveDatabase', flag: 'live-database', env: 'CLICKHOUSE_LIVE_DATABASE'},
+    {key: 'portal', flag: 'portal', env: 'PORTAL_URL'},
+    {key: 'statusPort', flag: 'status-port', env: 'STATUS_PORT'},
+]
+
+
+/**
+ * Flags, that don't take a value
+ */
+const BOOLEAN_FLAGS = new Set(['yes'])
+
+
+function main(): void {
+    let {command, flags} = parseArgs(process.argv.slice(2))
+    let settings = getSettings(flags)
+
+    switch(command) {
+        case 'run':
+            return runClickhouseProcessing(getProcessorArgs(settings))
+        case 'reindex': {
+            let fromBlock = parseBlockNumber(flags.from, 'from')
+            let toBlock = parseBlockNumber(flags.to, 'to')
+            let tables = flags.tables?.split(',').map(t => t.trim()).filter(t => t)
+            return runClickhouseProcessing({
+                ...getProcessorArgs(settings),
+                reindex: {fromBlock, toBlock, tables}
+            })
+        }
+        case 'reset':
+            return runProgram(() => reset(settings, flags.yes != null), err => log.fatal(err))
+        case 'cutover':
+            return runProgram(() => cutover(settings), err => log.fatal(err))
+        case 'status':
+            return runProgram(() => printStatus(settings), err => log.fatal(err))
+        case 'check-schema':
+            return runProgram(() => checkSchema(settings), err => log.fatal(err))
+        default:
+            process.stderr.write(USAGE)
+            process.exit(1)
+    }
+}
+
+
+function parseArgs(argv: string[]): {command?: string, flags: Record<string, string>} {
+    let command: string | undefined
+    let flags: Record<string, string> = {}
+    for (let i = 0; i < argv.length; i++) {
+        let arg = argv[i]
+        if (arg.startsWith('--')) {
+            let eq = arg.indexOf('=')
+            if (BOOLEAN_FLAGS.has(arg.slice(2))) {
+                flags[arg.slice(2)] = 'true'
+            } else if (eq > 0) {
+                flags[arg.slice(2, eq)] = arg.slice(eq + 1)
+            } else {
+                let value = argv[i + 1]
+                if (value == null || value.startsWith('--')) throw new Error(`option ${arg} requires a value`)
+                flags[arg.slice(2)] = value
+                i += 1
+            }
+        } else if (command == null) {
+            command = arg
+        } else {
+            throw new Error(`unexpected argument: ${arg}`)
+        }
+    }
+    return {command, flags}
+}
+
+
+function getSettings(flags: Record<string, string>): Settings {
+    let configFile = flags.config ?? process.env.CORE_CONFIG
+    let config: Record<string, unknown> = {}
+    if (configFile) {
+        config = readConfig(configFile)
+    } else if (fs.existsSync('core.config.json')) {
+        config = readConfig('core.config.json')
+    }
+
+    let settings: Settings = {clickhouse: 'http://localhost:8123'}
+    for (let {key, flag, env} of SETTINGS) {
+        let value = flags[flag] ?? process.env[env] ?? config[key]
+        if (value == null || value === '') continue
+        if (key == 'statusPort') {
+            let port = Number(value)
+            if (!Number.isSafeInteger(port) || port < 0) throw new Error(`invalid status port: ${value}`)
+            settings.statusPort = port
+        } else {
+            settings[key] = String(value)
+        }
+    }
+    return settings
+}
+
+
+function readConfig(file: string): Record<string, unknown> {
+    let config: unknown
+    try {
+        config = JSON.parse(fs.readFileSync(file, 'utf-8'))
+    } catch(err: any) {
+        throw new Error(`failed to read config file ${file}: ${err.message}`)
+    }
+    if (config == null || typeof config != 'object' || Array.isArray(config)) {
+        throw new Error(`config file ${file} must contain a JSON object`)
+    }
+    return config as Record<string, unknown>
+}
+
+
+function parseBlockNumber(value: string | undefined, flag: string): number {
+    if (value == null) throw new Error(`--${flag} option is required`)
+    let n = Number(value)
+    if (!Number.isSafeInteger(n) || n < 0) throw new Error(`invalid block number --${flag} ${value}`)
+    return n
+}
+
+
+function getDatabase(settings: Settings): string {
+    if (!settings.database) throw new Error('target database is not specified')
+    return settings.database
+}
+
+
+function getPipeline(settings: Settings): Pipeline {
+    if (!settings.pipeline) throw new Error('pipeline module is not specified')
+    return loadPipeline(settings.pipeline)
+}
+
+
+function getProcessorArgs(settings: Settings): ProcessorArgs<any, any> {
+    let pipeline = getPipeline(settings)
+    return {
+        clickhouse: settings.clickhouse,
+        clickhouseDatabase: getDatabase(settings),
+        clickhouseLiveDatabase: settings.liveDatabase,
+        clickhouseMigrations: pipeline.migrations,
+        clickhouseSchema: pipeline.schema,
+        clickhouseTables: pipeline.tables,
+        clickhouseInsertFormat: pipeline.insertFormat,
+        statusPort: settings.statusPort,
+        source: createPipelineSource(pipeline, settings),
+        state: pipeline.state,
+        map: pipeline.map,
+        mapBatch: pipeline.mapBatch,
+        mapWorkers: pipeline.mapWorkers
+    }
+}
+
+
+async function reset(settings: Settings, confirmed: boolean): Promise<void> {
+    let database = getDatabase(settings)
+    if (!confirmed) throw new Error(
+        `reset deletes all data of database '${database}', pass --yes to confirm`
+    )
+    let clickhouse = new ClickhouseClient(settings.clickhouse)
+    let schema = await inspectDatabase(clickhouse, database)
+    for (let table in schema) {
+        await clickhouse.command(`TRUNCATE TABLE ${database}.${table}`)
+        log.info(`cleared '${table}'`)
+    }
+}
+
+
+async function cutover(settings: Settings): Promise<void> {
+    if (!settings.liveDatabase) throw new Error('live database is not specified')
+    let clickhouse = new ClickhouseClient(settings.clickhouse)
+    await runCutover(clickhouse, getDatabase(settings), settings.liveDatabase)
+}
+
+
+async function printStatus(settings: Settings): Promise<void> {
+    let database = getDatabase(settings)
+    let clickhouse = new ClickhouseClient(settings.clickhouse)
+    let schema = await inspectDatabase(clickhouse, database)
+
+    let status = new ProcessorStatus(clickhouse, database, schema['blocks'].some(col => col.name == 'timestamp'))
+    let report = await status.health()
+
+    if (settings.pipeline) {
+        let source = createPipelineSource(getPipeline(settings), settings)
+        let chainHead = await getChainHead(source, report.head)
+        if (chainHead != null) {
+            status.registerBatch({headNumber: chainHead})
+            report = await status.health()
+        }
+    }
+
+    console.log(`database\t${database}`)
+    console.log(`head\t${report.head ? `${report.head.number}#${report.head.hash}` : '-'}`)
+    console.log(`chain head\t${report.chainHead ?? '-'}`)
+    console.log(`lag\t${report.lag?.blocks ?? '-'} blocks, ${report.lag?.seconds ?? '-'} secs`)
+    for (let table in schema) {
+        let res = await clickhouse.query<{count: string}>(`SELECT count() AS count FROM ${database}.${table}`)
+        console.log(`rows\t${table}\t${res.data[0].count}`)
+    }
+}
+
+
+/**
+ * Fetch the chain head from the first batches of the data stream
+ */
+async function getChainHead(source: DataSource<unknown>, head: BlockRef | undefined): Promise<number | undefined> {
+    let abort = new AbortController()
+    let timeout = setTimeout(() => abort.abort(), 30_000)
+    try {
+        for await (let batch of source.createDataStream(head, abort.signal)) {
+            if (batch.headNumber != null) return batch.headNumber
+        }
+    } catch(err: any) {
+        if (!abort.signal.aborted) throw err
+        log.warn('failed to fetch the chain head in 30 secs')
+    } finally {
+        clearTimeout(timeout)
+        abort.abort()
+    }
+}
+
+
+async function checkSchema(settings: Settings): Promise<void> {
+    let database = getDatabase(settings)
+    let clickhouse = new ClickhouseClient(settings.clickhouse)
+    let schema = await inspectDatabase(clickhouse, database)
+    for (let table in schema) {
+        console.log(`${table}\t${schema[table].map(col => `${col.name} ${col.type}`).join(', ')}`)
+    }
+    if (settings.pipeline) {
+        let pipeline = getPipeline(settings)
+        if (pipeline.schema) {
+            await verifySchema(clickhouse, database, pipeline.schema)
+        }
+    }
+    log.info(`database '${database}' is valid`)
+}
+
+
+try {
+    main()
+} catch(err: any) {
+    log.fatal(err)
+    process.exit(1)
+}
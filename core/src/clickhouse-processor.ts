@@ -1,9 +1,19 @@
 import {createLogger} from '@subsquid/logger'
 import {Speed} from '@subsquid/util-internal-counters'
+import assert from 'node:assert'
 import {ClickhouseClient} from './clickhouse/client'
-import {BlockWriter, TableOptions} from './clickhouse/writer'
-import type {BlockBase, BlockRef} from './common'
-import {groupBy, last, maybeLast, runProgram} from './util/misc'
+import {MIGRATIONS_TABLE, Migrator} from './clickhouse/migrations'
+import type {ColumnDef} from './clickhouse/row-binary'
+import {DatabaseSchema, verifySchema} from './clickhouse/schema'
+import {BlockWriter, InsertFormat, TableOptions} from './clickhouse/writer'
+import {BlockBase, BlockRef, isForkException} from './common'
+import {MapWorkerPool, MapWorkersOptions} from './map-workers'
+import {registry} from './prometheus'
+import {pickTables, prepareReindex} from './reindex'
+import {clearPartialData, getHead, rollbackFork, rollbackTo} from './rollback'
+import {StateOptions, StateStore} from './state'
+import {ProcessorStatus, serveStatus, StatusOptions} from './status'
+import {groupBy, last, runProgram} from './util/misc'
 import {Timer} from './util/timer'
 
 
@@ -13,17 +23,63 @@ const log = createLogger('core:clickhouse-processor')
 export interface DataBatch<B> {
     blocks: B[]
     headNumber?: number
+    finalizedHeadNumber?: number
 }
 
 
 export interface DataSource<B> {
-    createDataStream(afterBlock?: BlockRef): AsyncIterable<DataBatch<B>>
+    /**
+     * Create a stream of blocks following `afterBlock`.
+     *
+     * Once `abortSignal` is aborted, the stream should terminate as soon as possible,
+     * either normally or with the abort reason (or an `AbortError`).
+     */
+    createDataStream(afterBlock?: BlockRef, abortSignal?: AbortSignal): AsyncIterable<DataBatch<B>>
+    /**
+     * Create a stream of blocks within the given range (inclusive),
+     * without checking their continuity with the preceding blocks.
+     *
+     * Required for re-indexing.
+     */
+    createRangeStream?(fromBlock: number, toBlock: number, abortSignal?: AbortSignal): AsyncIterable<DataBatch<B>>
 }
 
 
 export type GetDataSourceBlock<S> = S extends DataSource<infer B> ? B : never
 
 
+export interface MapContext {
+    /**
+     * Persistent state store.
+     *
+     * Available only when `state` option of the processor is set.
+     */
+    readonly state: StateStore
+}
+
+
+export interface ReindexOptions {
+    /**
+     * First block of the range to re-index
+     */
+    fromBlock: number
+    /**
+     * Last block of the range to re-index (inclusive).
+     *
+     * Must not exceed the current processing head.
+     */
+    toBlock: number
+    /**
+     * Tables to re-index.
+     *
+     * Rows produced by the mapping function for other tables are dropped.
+     *
+     * Default: all block item tables
+     */
+    tables?: string[]
+}
+
+
 export interface ProcessorArgs<B, R> {
     /**
      * URL of the ClickHouse HTTP API.
@@ -33,18 +89,103 @@ export interface ProcessorArgs<B, R> {
      * Database to store the resulting data in.
      */
     clickhouseDatabase: string
+    /**
+     * Live database, that `clickhouseDatabase` is going to replace.
+     *
+     * When set, `clickhouseDatabase` is treated as a shadow copy of the live database,
+     * that is built from scratch (e.g. with a new mapping logic), while the live one keeps serving queries.
+     * Both databases must have the same tables and columns, which is checked on start.
+     *
+     * Once the shadow head reaches the head of the live database, the processor logs a notice
+     * and keeps processing the shadow database.
+     * The databases are swapped by an explicit cut-over step ({@link runCutover}).
+     */
+    clickhouseLiveDatabase?: string
+    /**
+     * Directory with schema migrations of the target database.
+     *
+     * When set, the database gets created if it doesn't exist
+     * and all pending migrations are applied before processing starts.
+     * See `clickhouse/migrations` for the migration file format.
+     */
+    clickhouseMigrations?: string
+    /**
+     * Declarative definition of the target database.
+     *
+     * When set, the live database is verified against it before processing starts
+     * (after pending migrations were applied).
+     */
+    clickhouseSchema?: DatabaseSchema<any>
     /**
      * Write options per table.
+     *
+     * For `blocks` table only `compression`, `maxInsertAttempts` and `insertRetrySchedule`
+     * options are taken into account.
      */
     clickhouseTables?: Record<string, TableOptions>
+    /**
+     * Default data format of insert queries.
+     *
+     * `RowBinary` is considerably faster, but unlike `JSONEachRow`
+     * it inserts omitted values as zero values of column types instead of column defaults
+     * and takes date strings without an offset as UTC instead of the column timezone.
+     *
+     * Default: `JSONEachRow`
+     */
+    clickhouseInsertFormat?: InsertFormat
+    /**
+     * Port of the HTTP server exposing Prometheus metrics at `/metrics`
+     * as well as health and readiness probes at `/health` and `/ready`.
+     *
+     * Default: the server is not started
+     */
+    statusPort?: number
+    /**
+     * Thresholds of health and readiness probes.
+     */
+    statusOptions?: StatusOptions
     /**
      * Data source.
      */
     source: DataSource<B>
+    /**
+     * Enables the persistent state store available to the mapping function as `ctx.state`.
+     */
+    state?: StateOptions
     /**
      * Data mapping function.
+     *
+     * Exactly one of `map` and `mapBatch` must be provided.
+     */
+    map?: (block: B, ctx: MapContext) => R | Promise<R>
+    /**
+     * Batch data mapping function.
+     *
+     * Receives all blocks of a data batch at once (which is handy for batched lookups)
+     * and must return table rows for each of them in the same order.
+     *
+     * State snapshots (if enabled) are taken only at the last block of a batch.
+     */
+    mapBatch?: (blocks: B[], ctx: MapContext) => R[] | Promise<R[]>
+    /**
+     * Run the mapping function exported by the given module in a pool of worker threads.
+     *
+     * This is an alternative to `map` for CPU-bound mappings.
+     * Blocks are still persisted in order and mapping errors terminate the processing
+     * exactly as errors of `map`. The state store is not available in workers.
+     */
+    mapWorkers?: MapWorkersOptions
+    /**
+     * Re-index the given block range of already processed data instead of the regular processing.
+     *
+     * Rows of the range are deleted from the selected tables
+     * and the range is streamed again with `source.createRangeStream()`.
+     * `blocks` table is left untouched, hence the processing head doesn't change.
+     *
+     * The range is not checked for chain forks, so it should be finalized.
+     * Interrupted re-indexing should be started again with the same options.
      */
-    map: (block: B) => R | Promise<R>
+    reindex?: ReindexOptions
 }
 
 
@@ -58,7 +199,8 @@ export interface ProcessorArgs<B, R> {
  *
  * 1. {@link DataSource} (passed as `args.source`) — responsible for fetching data starting from a given block
  * 2. Data mapping function (passed as `args.map`) — responsible for mapping a block into
- *    a set of rows to insert into the target database
+ *    a set of rows to insert into the target database.
+ *    Alternatively, `args.mapBatch` maps all blocks of a data batch at once.
  * 3. ClickHouse database ([a unit](https://clickhouse.com/docs/sql-reference/statements/create/database))
  *    (passed as `args.clickhouseDatabase`).
  *
@@ -66,6 +208,7 @@ export interface ProcessorArgs<B, R> {
  * all produced data is append-only.
  *
  * The target database must have a certain structure.
+ * It can be either created by hand or maintained with schema migrations (see `args.clickhouseMigrations`).
  *
  * First, there must be a `blocks` table:
  *
@@ -81,7 +224,8 @@ export interface ProcessorArgs<B, R> {
  *
  * It is used to store a list of completely processed blocks and is populated by the framework.
  *
- * All other members of the target database must be block item tables of the following structure:
+ * All other members of the target database (except the `migrations` bookkeeping table)
+ * must be block item tables of the following structure:
  *
  * ```sql
  * CREATE TABLE {block_item_name}
@@ -120,67 +264,263 @@ export interface ProcessorArgs<B, R> {
  *
  * Similarly, in the case of a chain fork, the `DELETE` statement is used to delete
  * all the rows related to roll-backed blocks.
+ * The common ancestor is determined by matching previous blocks reported by the data source
+ * against the `blocks` table, after which the processing resumes from it.
+ * Hence, it is safe to process non-finalized data.
+ *
+ * The mapping function can keep running aggregates in the persistent state store (`ctx.state`),
+ * enabled by the `state` option. The state is periodically saved to a dedicated block item table.
+ * On restart and on chain forks all data above the last valid state snapshot is rolled back
+ * and the processing resumes from the snapshot.
+ *
+ * With the `clickhouseLiveDatabase` option the data is written to a shadow database,
+ * that can replace the live one with {@link runCutover}, once it catches up with it.
+ *
+ * With the `reindex` option the framework re-processes a range of already processed blocks
+ * for selected tables, leaving the `blocks` table intact.
+ *
+ * On `SIGINT` or `SIGTERM` the framework stops pulling new data from the source,
+ * waits for already mapped blocks to be fully persisted and exits normally.
+ * The second signal aborts all pending inserts immediately.
  */
 export function runClickhouseProcessing<B extends BlockBase, R extends {[P in keyof R]: object[]}>(args: ProcessorArgs<B, R>): void {
     runProgram(async () => {
+        assert(
+            [args.map, args.mapBatch, args.mapWorkers].filter(m => m != null).length == 1,
+            'exactly one of `map`, `mapBatch` and `mapWorkers` must be provided'
+        )
+        assert(args.mapWorkers == null || args.state == null, 'state store is not supported with `mapWorkers`')
+        assert(args.reindex == null || args.state == null, 'state store is not supported in re-index mode')
+        assert(args.reindex == null || args.clickhouseLiveDatabase == null, 'cut-over is not supported in re-index mode')
+        assert(args.clickhouseLiveDatabase != args.clickhouseDatabase, 'live database must differ from the target database')
+
         let clickhouse = new ClickhouseClient(args.clickhouse)
 
-        let tableList = await inspectDatabase(clickhouse, args.clickhouseDatabase)
+        await assertNoInterruptedCutover(clickhouse, args.clickhouseDatabase)
+
+        if (args.clickhouseMigrations) {
+            await new Migrator(clickhouse, args.clickhouseDatabase, args.clickhouseMigrations).apply()
+        }
+
+        if (args.clickhouseSchema) {
+            await verifySchema(clickhouse, args.clickhouseDatabase, args.clickhouseSchema)
+        }
+
+        let schema = await inspectDatabase(clickhouse, args.clickhouseDatabase)
+        let tableList = Object.keys(schema).filter(table => table != 'blocks')
 
         log.debug({tableList}, 'database inspection finished')
 
-        let head = await clickhouse.query<BlockRef>(
-            `SELECT number, hash FROM ${args.clickhouseDatabase}.blocks ORDER BY number DESC LIMIT 1`
-        ).then(res => {
-            return maybeLast(res.data)
-        })
+        let cutover: Cutover | undefined
+        if (args.clickhouseLiveDatabase) {
+            cutover = new Cutover(clickhouse, args.clickhouseDatabase, args.clickhouseLiveDatabase)
+            await cutover.checkCompatibility()
+        }
+
+        let status = new ProcessorStatus(
+            clickhouse,
+            args.clickhouseDatabase,
+            schema['blocks'].some(col => col.name == 'timestamp'),
+            args.statusOptions
+        )
+
+        if (args.statusPort != null) {
+            let server = await serveStatus(args.statusPort, status)
+            log.info(`status server is listening on port ${server.port}`)
+        }
+
+        let head = await getHead(clickhouse, args.clickhouseDatabase)
 
         if (head) {
             log.debug({head}, 'processing head')
         }
 
+        let state: StateStore | undefined
+        if (args.state) {
+            state = new StateStore(args.state)
+            if (!tableList.includes(state.table)) {
+                throw new Error(`state table '${state.table}' is not defined in database '${args.clickhouseDatabase}'`)
+            }
+            head = await restoreState(clickhouse, args.clickhouseDatabase, tableList, state, head)
+        }
+
         await clearPartialData(clickhouse, args.clickhouseDatabase, tableList, head)
 
+        if (args.reindex) {
+            let tables = await prepareReindex(clickhouse, args.clickhouseDatabase, tableList, head, args.source, args.reindex)
+            args = {...args, reindex: {...args.reindex, tables}}
+        }
+
         let tableMap: Record<string, TableOptions> = {}
-        for (let table of tableList) {
+        for (let table of args.reindex?.tables ?? tableList) {
             tableMap[table] = args.clickhouseTables?.[table] ?? {}
         }
 
-        let writer = new BlockWriter(
-            clickhouse,
-            args.clickhouseDatabase,
-            tableMap
-        )
-
+        let pool = args.mapWorkers && new MapWorkerPool<B, R>(args.mapWorkers)
+        let writer: BlockWriter | undefined
         let metrics = new Metrics()
+        let shutdown = new AbortController()
+
+        let onSignal = (signal: NodeJS.Signals) => {
+            if (shutdown.signal.aborted) {
+                log.warn(`got ${signal} during shutdown, aborting pending inserts`)
+                writer?.abort(new Error(`processing was aborted by ${signal}`))
+            } else {
+                log.info(`got ${signal}, waiting for already mapped blocks to be persisted`)
+                shutdown.abort()
+            }
+        }
 
-        let {source, map} = args
+        process.on('SIGINT', onSignal)
+        process.on('SIGTERM', onSignal)
         try {
-            for await (let batch of source.createDataStream(head)) {
-                let nRows = 0
-
-                for (let block of batch.blocks) {
-                    let tables = await map(block)
-                    await writer.drain()
-                    writer.push({
-                        header: block.header,
-                        tables
-                    })
-
-                    // track the number of inserted rows for performance stats
-                    nRows += 1
-                    for (let table in tables) {
-                        nRows += tables[table].length
+            while (true) {
+                writer = new BlockWriter(
+                    clickhouse,
+                    args.clickhouseDatabase,
+                    tableMap,
+                    {
+                        columns: schema,
+                        format: args.clickhouseInsertFormat,
+                        compression: args.clickhouseTables?.['blocks']?.compression,
+                        maxInsertAttempts: args.clickhouseTables?.['blocks']?.maxInsertAttempts,
+                        insertRetrySchedule: args.clickhouseTables?.['blocks']?.insertRetrySchedule,
+                        skipBlocksTable: args.reindex != null
                     }
+                )
+                status.setWriter(writer)
+                try {
+                    await runProcessingLoop(args, clickhouse, head, writer, metrics, status, state, pool, cutover, shutdown.signal)
+                    break
+                } catch(err: any) {
+                    if (!isForkException(err) || !writer.isHealthy || args.reindex) throw err
+                    log.info(err.message)
+                    head = await rollbackFork(clickhouse, args.clickhouseDatabase, tableList, err)
+                    if (state) {
+                        head = await restoreState(clickhouse, args.clickhouseDatabase, tableList, state, head)
+                    }
+                    log.info({head}, 'rolled back forked blocks, resuming processing')
                 }
+            }
+        } finally {
+            process.off('SIGINT', onSignal)
+            process.off('SIGTERM', onSignal)
+            await pool?.close()
+        }
+
+        metrics.report()
 
-                if (batch.blocks.length == 0 || (batch.headNumber ?? -1) <= last(batch.blocks).header.number) {
-                    await writer.flush()
+        if (shutdown.signal.aborted) {
+            log.info('processing was stopped')
+        }
+    }, err => {
+        log.fatal(err)
+    })
+}
+
+
+async function runProcessingLoop<B extends BlockBase, R extends {[P in keyof R]: object[]}>(
+    args: ProcessorArgs<B, R>,
+    clickhouse: ClickhouseClient,
+    head: BlockRef | undefined,
+    writer: BlockWriter,
+    metrics: Metrics,
+    status: ProcessorStatus,
+    state: StateStore | undefined,
+    pool: MapWorkerPool<B, R> | undefined,
+    cutover: Cutover | undefined,
+    shutdownSignal: AbortSignal
+): Promise<void>
+{
+    let {source, map, mapBatch, reindex} = args
+
+    let ctx: MapContext = {
+        get state(): StateStore {
+            if (state == null) throw new Error('state store is not enabled, set `state` option of the processor')
+            return state
+        }
+    }
+
+    try {
+        let stream = reindex
+            ? source.createRangeStream!(reindex.fromBlock, reindex.toBlock, shutdownSignal)
+            : source.createDataStream(head, shutdownSignal)
+
+        for await (let batch of stream) {
+            status.registerBatch(batch)
+
+            let nRows = 0
+
+            let results: (R | Promise<R>)[] | undefined
+            if (mapBatch && batch.blocks.length > 0) {
+                results = await mapBatch(batch.blocks, ctx)
+                assert(
+                    results.length == batch.blocks.length,
+                    `mapBatch() returned ${results.length} results for ${batch.blocks.length} blocks`
+                )
+            } else if (pool) {
+                results = []
+            }
+
+            for (let i = 0; i < batch.blocks.length; i++) {
+                if (shutdownSignal.aborted) break
+
+                if (pool) {
+                    // blocks are mapped concurrently, but awaited and persisted in order,
+                    // at most `maxPendingBlocks` of them are dispatched ahead
+                    let end = Math.min(batch.blocks.length, i + pool.maxPendingBlocks)
+                    for (let j = results!.length; j < end; j++) {
+                        results!.push(pool.map(batch.blocks[j]))
+                    }
                 }
 
-                metrics.registerBatch(batch, nRows)
+                let block = batch.blocks[i]
+                let tables: Record<string, object[]> = results ? await results[i] : await map!(block, ctx)
+                if (reindex) {
+                    tables = pickTables(tables, reindex.tables!)
+                }
+
+                let snapshot = results == null || i == batch.blocks.length - 1
+                    ? state?.takeSnapshot(block.header.number)
+                    : undefined
+                if (snapshot) {
+                    tables = {...tables, [state!.table]: snapshot}
+                }
+
+                await writer.drain()
+                writer.push({
+                    header: block.header,
+                    tables
+                })
+
+                // track the number of inserted rows for performance stats
+                nRows += 1
+                for (let table in tables) {
+                    nRows += tables[table].length
+                }
             }
-        } catch(err: any) {
+
+            if (shutdownSignal.aborted) break
+
+            let atHead = batch.blocks.length == 0 || (batch.headNumber ?? -1) <= last(batch.blocks).header.number
+            if (atHead) {
+                await writer.flush()
+            }
+
+            metrics.registerBatch(batch, nRows)
+
+            if (state && batch.finalizedHeadNumber != null) {
+                let finalizedHead = Math.min(batch.finalizedHeadNumber, writer.getLastCommittedBlockNumber())
+                await state.prune(clickhouse, args.clickhouseDatabase, finalizedHead)
+            }
+
+            if (atHead) {
+                await cutover?.reportCatchUp()
+            }
+        }
+    } catch(err: any) {
+        // data stream terminates with an error when it gets aborted
+        if (!isAbortError(err, shutdownSignal) || !writer.isHealthy) {
             if (writer.isHealthy) {
                 await writer.flush().catch(err => {
                     log.error(err, 'final flush of already mapped data failed')
@@ -188,43 +528,337 @@ export function runClickhouseProcessing<B extends BlockBase, R extends {[P in ke
             }
             throw err
         }
+    }
 
-        await writer.flush()
+    await writer.flush()
+}
 
-        metrics.report()
-    }, err => {
-        log.fatal(err)
-    })
+
+function isAbortError(err: unknown, signal: AbortSignal): boolean {
+    if (!signal.aborted) return false
+    return err === signal.reason || err instanceof Error && err.name == 'AbortError'
+}
+
+
+/**
+ * Name of the journal table of a cut-over.
+ *
+ * The table exists in the live database only while the cut-over is in progress
+ * and is ignored by the processor.
+ */
+export const CUTOVER_TABLE = 'cutover_journal'
+
+
+/**
+ * Swap all tables of the shadow database with the live one.
+ *
+ * Processors writing to both databases must be stopped before the cut-over.
+ * Tables are swapped one by one with `EXCHANGE TABLES`, which is not atomic as a whole.
+ * Hence, the heads of both databases are checked during the swap
+ * and all tables are swapped back, if either of them moves.
+ *
+ * The cut-over is recorded in the {@link CUTOVER_TABLE} journal beforehand.
+ * When it gets interrupted (e.g. the process crashes), processors refuse to start
+ * and the next cut-over first swaps back the already swapped tables, then repeats the swap.
+ */
+export async function runCutover(clickhouse: ClickhouseClient, shadowDatabase: string, liveDatabase: string): Promise<void> {
+    assert(shadowDatabase != liveDatabase, 'live database must differ from the shadow database')
+    await new Cutover(clickhouse, shadowDatabase, liveDatabase).run()
+}
+
+
+/**
+ * Table to swap as recorded in the cut-over journal.
+ *
+ * Tables are identified by UUIDs, which stay with the table data when tables are exchanged.
+ */
+interface CutoverJournalEntry {
+    shadow: string
+    /**
+     * Table name
+     */
+    name: string
+    live_uuid: string
+    shadow_uuid: string
+}
+
+
+const NIL_UUID = '00000000-0000-0000-0000-000000000000'
+
+
+async function assertNoInterruptedCutover(clickhouse: ClickhouseClient, database: string): Promise<void> {
+    if (await hasCutoverJournal(clickhouse, database)) throw new Error(
+        `cut-over of database '${database}' was interrupted and its tables might be swapped only partially, ` +
+        `run the cut-over again to complete it`
+    )
+}
+
+
+async function hasCutoverJournal(clickhouse: ClickhouseClient, database: string): Promise<boolean> {
+    let res = await clickhouse.query<{name: string}>(
+        'SELECT name FROM system.tables WHERE database = {database:String} AND name = {table:String}',
+        {database, table: CUTOVER_TABLE}
+    )
+    return res.data.length > 0
+}
+
+
+class Cutover {
+    private caughtUp = false
+
+    constructor(
+        private clickhouse: ClickhouseClient,
+        private shadow: string,
+        private live: string
+    ) {}
+
+    /**
+     * Log a notice, when the shadow database catches up with the live one for the first time
+     */
+    async reportCatchUp(): Promise<void> {
+        if (this.caughtUp) return
+        let shadowHead = await getHead(this.clickhouse, this.shadow)
+        let liveHead = await getHead(this.clickhouse, this.live)
+        this.caughtUp = isCaughtUp(shadowHead, liveHead)
+        if (this.caughtUp) {
+            log.info(
+                `shadow database '${this.shadow}' has caught up with '${this.live}', ` +
+                `stop the processors and run the cut-over to swap them`
+            )
+        }
+    }
+
+    async run(): Promise<void> {
+        await this.revertInterrupted()
+
+        let tables = await this.checkCompatibility()
+
+        let shadowHead = await getHead(this.clickhouse, this.shadow)
+        let liveHead = await getHead(this.clickhouse, this.live)
+        if (!isCaughtUp(shadowHead, liveHead)) {
+            throw new Error(
+                `shadow database '${this.shadow}' (head: ${formatHead(shadowHead)}) ` +
+                `has not caught up with '${this.live}' (head: ${formatHead(liveHead)})`
+            )
+        }
+
+        let journal = await this.writeJournal(tables)
+
+        log.info(`swapping tables of '${this.shadow}' and '${this.live}'`)
+
+        try {
+            // The blocks table goes last, so that the live head moves only after all data was swapped.
+            for (let table of tables) {
+                if (table == 'blocks') {
+                    await this.assertHead(this.live, liveHead)
+                    await this.assertHead(this.shadow, shadowHead)
+                }
+                await this.exchange(table)
+            }
+            await this.assertHead(this.live, shadowHead)
+            await this.assertHead(this.shadow, liveHead)
+        } catch(err: any) {
+            log.error(err, 'cut-over failed, swapping the tables back')
+            await this.revert(journal)
+            throw err
+        }
+
+        await this.clickhouse.command(`DROP TABLE ${this.live}.${CUTOVER_TABLE}`)
+
+        log.info(`database '${this.live}' now contains the data of '${this.shadow}'`)
+    }
+
+    private async writeJournal(tables: string[]): Promise<CutoverJournalEntry[]> {
+        let uuids = await this.getTableUuids()
+        let journal = tables.map(table => {
+            let entry = {
+                shadow: this.shadow,
+                name: table,
+                live_uuid: uuids.get(`${this.live}.${table}`) ?? NIL_UUID,
+                shadow_uuid: uuids.get(`${this.shadow}.${table}`) ?? NIL_UUID
+            }
+            if (entry.live_uuid == NIL_UUID || entry.shadow_uuid == NIL_UUID) throw new Error(
+                `table '${table}' does not have a UUID, cut-over requires databases with Atomic engine`
+            )
+            return entry
+        })
+
+        await this.clickhouse.command(
+            `CREATE TABLE ${this.live}.${CUTOVER_TABLE} ` +
+            `(shadow String, name String, live_uuid UUID, shadow_uuid UUID) ` +
+            `ENGINE = MergeTree() ORDER BY tuple()`
+        )
+        // a single insert, so that the journal is either complete or empty
+        await this.clickhouse.command(
+            `INSERT INTO ${this.live}.${CUTOVER_TABLE} (shadow, name, live_uuid, shadow_uuid) VALUES ` +
+            journal.map(e => `('${e.shadow}', '${e.name}', '${e.live_uuid}', '${e.shadow_uuid}')`).join(', ')
+        )
+        return journal
+    }
+
+    private async revertInterrupted(): Promise<void> {
+        if (!await hasCutoverJournal(this.clickhouse, this.live)) return
+
+        let res = await this.clickhouse.query<CutoverJournalEntry>(
+            `SELECT shadow, name, toString(live_uuid) AS live_uuid, toString(shadow_uuid) AS shadow_uuid ` +
+            `FROM ${this.live}.${CUTOVER_TABLE}`
+        )
+        let other = res.data.find(e => e.shadow != this.shadow)
+        if (other) throw new Error(
+            `cut-over of '${other.shadow}' and '${this.live}' was interrupted, run it again to complete it`
+        )
+
+        log.warn(`cut-over of '${this.shadow}' and '${this.live}' was interrupted, swapping the tables back`)
+        await this.revert(res.data)
+    }
+
+    /**
+     * Swap back the tables, that were swapped according to the journal, and drop the journal
+     */
+    private async revert(journal: CutoverJournalEntry[]): Promise<void> {
+        let uuids = await this.getTableUuids()
+        // The blocks table goes first, so that the live head moves back before the data.
+        let entries = [...journal.filter(e => e.name == 'blocks'), ...journal.filter(e => e.name != 'blocks')]
+        for (let e of entries) {
+            let uuid = uuids.get(`${this.live}.${e.name}`)
+            if (uuid == e.shadow_uuid) {
+                await this.exchange(e.name)
+            } else if (uuid != e.live_uuid) {
+                throw new Error(
+                    `table '${this.live}.${e.name}' was replaced during the cut-over and has to be restored by hand`
+                )
+            }
+        }
+        await this.clickhouse.command(`DROP TABLE ${this.live}.${CUTOVER_TABLE}`)
+    }
+
+    private async getTableUuids(): Promise<Map<string, string>> {
+        let res = await this.clickhouse.query<{database: string, name: string, uuid: string}>(
+            'SELECT database, name, toString(uuid) AS uuid FROM system.tables WHERE database IN ({shadow:String}, {live:String})',
+            {shadow: this.shadow, live: this.live}
+        )
+        return new Map(res.data.map(t => [`${t.database}.${t.name}`, t.uuid]))
+    }
+
+    private async exchange(table: string): Promise<void> {
+        await this.clickhouse.command(`EXCHANGE TABLES ${this.live}.${table} AND ${this.shadow}.${table}`)
+        log.debug(`swapped '${table}'`)
+    }
+
+    private async assertHead(database: string, expected: BlockRef | undefined): Promise<void> {
+        let head = await getHead(this.clickhouse, database)
+        if (head?.number !== expected?.number || head?.hash !== expected?.hash) {
+            throw new Error(
+                `head of '${database}' moved from ${formatHead(expected)} to ${formatHead(head)} during the cut-over, ` +
+                `processors writing to '${this.shadow}' and '${this.live}' must be stopped`
+            )
+        }
+    }
+
+    /**
+     * Check, that both databases have the same tables and columns.
+     *
+     * @returns list of tables to swap
+     */
+    async checkCompatibility(): Promise<string[]> {
+        await assertNoInterruptedCutover(this.clickhouse, this.live)
+
+        let shadow = await inspectDatabase(this.clickhouse, this.shadow)
+        let live = await inspectDatabase(this.clickhouse, this.live)
+
+        let problems: string[] = []
+        for (let table in live) {
+            if (shadow[table] == null) {
+                problems.push(`table '${table}' is missing in '${this.shadow}'`)
+            }
+        }
+        for (let table in shadow) {
+            if (live[table] == null) {
+                problems.push(`table '${table}' is missing in '${this.live}'`)
+            } else if (JSON.stringify(live[table]) != JSON.stringify(shadow[table])) {
+                problems.push(`table '${table}' has different columns`)
+            }
+        }
+
+        if (problems.length > 0) {
+            throw new Error(
+                `databases '${this.live}' and '${this.shadow}' are not compatible:\n  ${problems.join('\n  ')}`
+            )
+        }
+
+        let tables = Object.keys(shadow).filter(table => table != 'blocks')
+
+        // migration history goes along with the tables it describes
+        let migrations = await this.clickhouse.query<{database: string}>(
+            'SELECT database FROM system.tables WHERE name = {table:String} AND database IN ({shadow:String}, {live:String})',
+            {table: MIGRATIONS_TABLE, shadow: this.shadow, live: this.live}
+        )
+        if (migrations.data.length == 2) {
+            tables.push(MIGRATIONS_TABLE)
+        }
+
+        tables.push('blocks')
+        return tables
+    }
 }
 
 
-async function clearPartialData(
+function isCaughtUp(shadowHead: BlockRef | undefined, liveHead: BlockRef | undefined): boolean {
+    return liveHead == null || shadowHead != null && shadowHead.number >= liveHead.number
+}
+
+
+function formatHead(head: BlockRef | undefined): string {
+    return head ? `${head.number}#${head.hash}` : 'none'
+}
+
+
+/**
+ * Restore the state from the last snapshot at or below the given head
+ * and roll back all data above the snapshot.
+ *
+ * @returns the new processing head
+ */
+async function restoreState(
     clickhouse: ClickhouseClient,
     database: string,
     tableList: string[],
+    state: StateStore,
     head: BlockRef | undefined
-): Promise<void>
+): Promise<BlockRef | undefined>
 {
-    if (head) {
-        for (let table of tableList) {
-            await clickhouse.command(`DELETE FROM ${database}.${table} WHERE block_number > ${head.number}`)
-            log.debug(`cleared partial data in '${table}'`)
-        }
-    } else {
-        for (let table of tableList) {
-            await clickhouse.command(`DELETE FROM ${database}.${table} WHERE block_number >= 0`)
-            log.debug(`cleared '${table}'`)
-        }
+    let snapshot = await state.restore(clickhouse, database, head?.number ?? -1)
+    if (snapshot?.number == head?.number) return head
+
+    if (snapshot == null) {
+        // The first processed block (or the first batch with `mapBatch`) always gets a snapshot,
+        // hence, the data was processed without the state store
+        // or the processor was stopped before the first snapshot was persisted.
+        throw new Error(
+            `state table '${database}.${state.table}' has no snapshots at or below block ${head!.number}, ` +
+            `which happens when the state store gets enabled on an already processed database. ` +
+            `Re-index the database from scratch, e.g. clear it with \`core reset\`.`
+        )
     }
+
+    log.info(`state was restored from the snapshot at block ${snapshot.number}, processing will resume from it`)
+
+    await rollbackTo(clickhouse, database, tableList, snapshot.number)
+    return snapshot
 }
 
 
-async function inspectDatabase(clickhouse: ClickhouseClient, db: string): Promise<string[]> {
-    let columns = await clickhouse.query<{table: string, name: string, type: string}>(
-        'SELECT table, name, type FROM system.columns WHERE database = {db:String}',
+/**
+ * Validate the structure of the target database.
+ *
+ * @returns insertable columns of all tables
+ */
+export async function inspectDatabase(clickhouse: ClickhouseClient, db: string): Promise<Record<string, ColumnDef[]>> {
+    let columns = await clickhouse.query<{table: string, name: string, type: string, default_kind: string}>(
+        'SELECT table, name, type, default_kind FROM system.columns WHERE database = {db:String} ORDER BY table, position',
         {db}
     ).then(res => {
-        return groupBy(res.data, it => it.table)
+        return groupBy(res.data.filter(it => it.table != MIGRATIONS_TABLE && it.table != CUTOVER_TABLE), it => it.table)
     })
 
     interface TypeDef {
@@ -281,10 +915,25 @@ async function inspectDatabase(clickhouse: ClickhouseClient, db: string): Promis
 
     if (!columns.has('blocks')) throw new Error(`'blocks' table is not defined in database '${db}'`)
 
-    return Array.from(columns.keys()).filter(table => table != 'blocks')
+    let schema: Record<string, ColumnDef[]> = {}
+    for (let [table, fields] of columns.entries()) {
+        schema[table] = fields
+            .filter(f => !['MATERIALIZED', 'ALIAS', 'EPHEMERAL'].includes(f.default_kind))
+            .map(f => ({name: f.name, type: f.type}))
+    }
+    return schema
 }
 
 
+const lastBlockGauge = registry.gauge('sqd_processor_last_block', 'Last processed block')
+const headGauge = registry.gauge('sqd_processor_chain_head', 'Chain head reported by the data source')
+const finalizedHeadGauge = registry.gauge('sqd_processor_finalized_head', 'Finalized head reported by the data source')
+const blockSpeedGauge = registry.gauge('sqd_processor_blocks_per_second', 'Block processing rate')
+const rowSpeedGauge = registry.gauge('sqd_processor_rows_per_second', 'Row production rate')
+const blocksCounter = registry.counter('sqd_processor_blocks_total', 'Number of processed blocks')
+const rowsCounter = registry.counter('sqd_processor_rows_total', 'Number of produced rows')
+
+
 class Metrics {
     private lastBlock = -1
     private lastTick = process.hrtime.bigint()
@@ -293,7 +942,14 @@ class Metrics {
     private insertSpeed = new Speed()
     private reportTimeout = new Timer(5000, () => this.report())
 
-    registerBatch(batch: {blocks: BlockBase[]}, rows: number): void {
+    registerBatch(batch: DataBatch<BlockBase>, rows: number): void {
+        if (batch.headNumber != null) {
+            headGauge.set(batch.headNumber)
+        }
+        if (batch.finalizedHeadNumber != null) {
+            finalizedHeadGauge.set(batch.finalizedHeadNumber)
+        }
+
         if (batch.blocks.length == 0) return
 
         let lastBlock = last(batch.blocks).header.number
@@ -309,6 +965,12 @@ class Metrics {
         this.lastBlock = lastBlock
         this.lastTick = now
 
+        lastBlockGauge.set(lastBlock)
+        blockSpeedGauge.set(Math.round(this.blockSpeed.speed()))
+        rowSpeedGauge.set(Math.round(this.insertSpeed.speed()))
+        blocksCounter.inc(batch.blocks.length)
+        rowsCounter.inc(rows)
+
         this.reportUpdates()
     }
 
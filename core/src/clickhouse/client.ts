@@ -1,14 +1,39 @@
 import {HttpClient} from '@subsquid/http-client'
-import {createUpload, Upload} from './upload'
+import {createUpload, Upload, UploadCompression} from './upload'
 
 
-export type ClickhouseDataFormat = 'JSONEachRow' | 'TabSeparated' | 'CSV'
+export type ClickhouseDataFormat = 'JSONEachRow' | 'RowBinary' | 'TabSeparated' | 'CSV'
 
 
 export interface InsertArgs {
     table: string
     format: ClickhouseDataFormat
     columns?: string[]
+    /**
+     * Abort the insert when there was no network activity for the given number of milliseconds.
+     *
+     * Default: 60 secs
+     */
+    idleTimeout?: number
+    /**
+     * Compression of the request body
+     */
+    compression?: UploadCompression
+    /**
+     * Value of `insert_deduplication_token` setting.
+     *
+     * Repeated inserts of the same data with the same token are ignored by ClickHouse,
+     * which makes it safe to retry inserts, which outcome is unknown.
+     */
+    deduplicationToken?: string
+}
+
+
+export interface CommandOptions {
+    /**
+     * Default database of the statement
+     */
+    database?: string
 }
 
 
@@ -39,8 +64,14 @@ export class ClickhouseClient {
             query += `(${args.columns.join(', ')}) `
         }
         query += `FORMAT ${args.format}`
+        let params: Record<string, string> = {query}
+        if (args.deduplicationToken != null) {
+            params.insert_deduplication_token = args.deduplicationToken
+        }
         return createUpload(this.url, {
-            query: {query}
+            query: params,
+            idleTimeout: args.idleTimeout ?? 60_000,
+            compression: args.compression
         })
     }
 
@@ -54,7 +85,11 @@ export class ClickhouseClient {
         return this.http.post('/', {query: q})
     }
 
-    async command(query: string): Promise<void> {
-        await this.http.post('/', {query: {query}})
+    async command(query: string, options: CommandOptions = {}): Promise<void> {
+        let q: Record<string, string> = {query}
+        if (options.database) {
+            q.database = options.database
+        }
+        await this.http.post('/', {query: q})
     }
 }
@@ -0,0 +1,318 @@
+import {createLogger} from '@subsquid/logger'
+import assert from 'node:assert'
+import {mkdir, readdir, readFile, writeFile} from 'node:fs/promises'
+import * as path from 'node:path'
+import type {ClickhouseClient} from './client'
+
+
+const log = createLogger('core:clickhouse:migrations')
+
+
+/**
+ * Name of the bookkeeping table of applied migrations.
+ *
+ * The table is created in the target database and is ignored by the processor.
+ */
+export const MIGRATIONS_TABLE = 'migrations'
+
+
+export interface Migration {
+    version: number
+    name: string
+    /**
+     * Path to the file with statements applying the migration
+     */
+    up: string
+    /**
+     * Path to the file with statements reverting the migration
+     */
+    down?: string
+}
+
+
+export interface AppliedMigration {
+    version: number
+    name: string
+    timestamp: number
+}
+
+
+const MIGRATION_FILE = /^(\d+)_([\w-]+)\.(up|down)\.sql$/
+
+
+/**
+ * Load migrations from the given directory.
+ *
+ * A migration consists of `{version}_{name}.up.sql` file
+ * and an optional `{version}_{name}.down.sql` file, that reverts it.
+ * Files contain `;`-separated statements, that are executed in the context of the target database,
+ * hence, table names should not be qualified with the database name.
+ *
+ * @returns migrations ordered by version
+ */
+export async function loadMigrations(dir: string): Promise<Migration[]> {
+    let files: string[]
+    try {
+        files = await readdir(dir)
+    } catch(err: any) {
+        if (err.code == 'ENOENT') return []
+        throw err
+    }
+
+    let migrations = new Map<number, Migration>()
+
+    for (let file of files) {
+        let m = MIGRATION_FILE.exec(file)
+        if (m == null) continue
+
+        let version = parseInt(m[1])
+        let name = m[2]
+        let filePath = path.join(dir, file)
+
+        let migration = migrations.get(version)
+        if (migration == null) {
+            migration = {version, name, up: ''}
+            migrations.set(version, migration)
+        } else if (migration.name != name) {
+            throw new Error(`migrations '${migration.name}' and '${name}' have the same version ${version}`)
+        }
+
+        if (m[3] == 'up') {
+            migration.up = filePath
+        } else {
+            migration.down = filePath
+        }
+    }
+
+    for (let migration of migrations.values()) {
+        if (!migration.up) throw new Error(
+            `migration ${migration.version}_${migration.name} does not have an .up.sql file`
+        )
+    }
+
+    return Array.from(migrations.values()).sort((a, b) => a.version - b.version)
+}
+
+
+/**
+ * Create empty `.up.sql` and `.down.sql` files of a new migration.
+ *
+ * Migration version is the current UTC time in `YYYYMMDDhhmmss` format.
+ *
+ * @returns created migration
+ */
+export async function createMigration(dir: string, name: string): Promise<Migration> {
+    assert(/^[\w-]+$/.test(name), 'migration name may only contain letters, digits, `_` and `-`')
+
+    let version = parseInt(new Date().toISOString().replace(/\D/g, '').slice(0, 14))
+
+    let existing = await loadMigrations(dir)
+    if (existing.length > 0 && existing[existing.length - 1].version >= version) {
+        throw new Error(`migration with version ${version} or higher already exists`)
+    }
+
+    let migration = {
+        version,
+        name,
+        up: path.join(dir, `${version}_${name}.up.sql`),
+        down: path.join(dir, `${version}_${name}.down.sql`)
+    }
+
+    await mkdir(dir, {recursive: true})
+    await writeFile(migration.up, `-- ${name}\n`, {flag: 'wx'})
+    await writeFile(migration.down, `-- revert ${name}\n`, {flag: 'wx'})
+
+    return migration
+}
+
+
+/**
+ * Applies and reverts migrations of the target database,
+ * keeping track of them in the {@link MIGRATIONS_TABLE} table.
+ *
+ * ClickHouse DDL is not transactional.
+ * When a migration fails halfway through, it is not recorded as applied
+ * and the already executed statements have to be reverted by hand.
+ */
+export class Migrator {
+    constructor(
+        private clickhouse: ClickhouseClient,
+        private database: string,
+        private dir: string
+    ) {}
+
+    /**
+     * Create the target database and the bookkeeping table if they don't exist.
+     */
+    async init(): Promise<void> {
+        await this.clickhouse.command(`CREATE DATABASE IF NOT EXISTS ${this.database}`)
+        await this.clickhouse.command(
+            `CREATE TABLE IF NOT EXISTS ${this.database}.${MIGRATIONS_TABLE} (` +
+            `version UInt64, name String, timestamp DateTime DEFAULT now()` +
+            `) ENGINE = MergeTree() ORDER BY version`
+        )
+    }
+
+    /**
+     * List applied migrations without modifying the database.
+     *
+     * When the bookkeeping table (or the database itself) doesn't exist yet,
+     * nothing has been applied.
+     */
+    async getApplied(): Promise<AppliedMigration[]> {
+        let table = await this.clickhouse.query<{name: string}>(
+            `SELECT name FROM system.tables WHERE database = {database:String} AND name = {table:String}`,
+            {database: this.database, table: MIGRATIONS_TABLE}
+        )
+        if (table.data.length == 0) return []
+
+        let res = await this.clickhouse.query<{version: string, name: string, timestamp: string}>(
+            `SELECT version, name, toUnixTimestamp(timestamp) AS timestamp ` +
+            `FROM ${this.database}.${MIGRATIONS_TABLE} ORDER BY version`
+        )
+        return res.data.map(row => ({
+            version: Number(row.version),
+            name: row.name,
+            timestamp: Number(row.timestamp)
+        }))
+    }
+
+    async getPending(): Promise<Migration[]> {
+        let migrations = await loadMigrations(this.dir)
+        let applied = await this.getApplied()
+        let appliedVersions = new Set(applied.map(m => m.version))
+        let lastApplied = applied.length ? applied[applied.length - 1].version : -1
+
+        let pending = migrations.filter(m => !appliedVersions.has(m.version))
+        for (let m of pending) {
+            if (m.version < lastApplied) throw new Error(
+                `migration ${m.version}_${m.name} precedes already applied migration ${lastApplied}, ` +
+                `migrations can only be applied in order`
+            )
+        }
+        return pending
+    }
+
+    /**
+     * Apply all pending migrations.
+     *
+     * @returns applied migrations
+     */
+    async apply(): Promise<Migration[]> {
+        await this.init()
+        let pending = await this.getPending()
+        for (let m of pending) {
+            log.info(`applying migration ${m.version}_${m.name}`)
+            await this.execute(m.up)
+            await this.clickhouse.command(
+                `INSERT INTO ${this.database}.${MIGRATIONS_TABLE} (version, name) ` +
+                `VALUES (${m.version}, '${m.name}')`
+            )
+        }
+        return pending
+    }
+
+    /**
+     * Revert the last applied migration.
+     *
+     * @returns reverted migration, `undefined` when there is nothing to revert
+     */
+    async revert(): Promise<Migration | undefined> {
+        await this.init()
+        let applied = await this.getApplied()
+        if (applied.length == 0) return
+
+        let last = applied[applied.length - 1]
+        let migration = (await loadMigrations(this.dir)).find(m => m.version == last.version)
+        if (migration == null) throw new Error(
+            `migration ${last.version}_${last.name} is not found in ${this.dir}`
+        )
+        if (migration.down == null) throw new Error(
+            `migration ${last.version}_${last.name} does not have a .down.sql file and can't be reverted`
+        )
+
+        log.info(`reverting migration ${migration.version}_${migration.name}`)
+        await this.execute(migration.down)
+        await this.clickhouse.command(
+            `DELETE FROM ${this.database}.${MIGRATIONS_TABLE} WHERE version = ${migration.version}`
+        )
+        return migration
+    }
+
+    private async execute(file: string): Promise<void> {
+        let sql = await readFile(file, 'utf-8')
+        for (let statement of splitStatements(sql)) {
+            log.debug({statement}, 'executing')
+            await this.clickhouse.command(statement, {database: this.database})
+        }
+    }
+}
+
+
+/**
+ * Split SQL script into separate statements,
+ * as ClickHouse HTTP interface executes a single statement per request.
+ */
+export function splitStatements(sql: string): string[] {
+    let statements: string[] = []
+    let beg = 0
+    let hasCode = false
+    let i = 0
+
+    function push(end: number) {
+        if (hasCode) {
+            statements.push(sql.slice(beg, end).trim())
+        }
+        beg = end + 1
+        hasCode = false
+    }
+
+    while (i < sql.length) {
+        let ch = sql[i]
+        if (ch == '-' && sql[i + 1] == '-') {
+            i = skipUntil(sql, i + 2, '\n')
+        } else if (ch == '/' && sql[i + 1] == '*') {
+            i = skipUntil(sql, i + 2, '*/')
+        } else if (ch == '\'' || ch == '"' || ch == '`') {
+            hasCode = true
+            i = skipQuoted(sql, i)
+        } else if (ch == ';') {
+            push(i)
+            i += 1
+        } else {
+            if (!/\s/.test(ch)) {
+                hasCode = true
+            }
+            i += 1
+        }
+    }
+    push(sql.length)
+
+    return statements
+}
+
+
+function skipUntil(sql: string, pos: number, end: string): number {
+    let idx = sql.indexOf(end, pos)
+    return idx < 0 ? sql.length : idx + end.length
+}
+
+
+function skipQuoted(sql: string, pos: number): number {
+    let quote = sql[pos]
+    let i = pos + 1
+    while (i < sql.length) {
+        if (sql[i] == '\\') {
+            i += 2
+        } else if (sql[i] == quote) {
+            if (sql[i + 1] == quote) {
+                i += 2
+            } else {
+                return i + 1
+            }
+        } else {
+            i += 1
+        }
+    }
+    throw new Error(`unterminated ${quote} quote at position ${pos}`)
+}
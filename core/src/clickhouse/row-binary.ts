@@ -0,0 +1,351 @@
+import assert from 'node:assert'
+
+
+export interface ColumnDef {
+    name: string
+    type: string
+}
+
+
+export type RowBinaryEncoder = (row: Record<string, unknown>) => Uint8Array
+
+
+/**
+ * Create an encoder of rows into ClickHouse `RowBinary` format.
+ *
+ * Encoded rows contain values of the given columns in the given order.
+ * Missing (`undefined`) values are encoded as NULL for `Nullable` columns
+ * and as the zero value of the column type otherwise.
+ *
+ * `Date` and `DateTime` values can be given as `Date` objects, unix timestamps in seconds
+ * or ISO 8601 strings. Unlike ClickHouse, which parses strings in the timezone of the column,
+ * strings without an offset are taken as UTC.
+ */
+export function createRowBinaryEncoder(columns: ColumnDef[]): RowBinaryEncoder {
+    let encoders = columns.map(col => {
+        try {
+            return getTypeEncoder(col.type)
+        } catch(err: any) {
+            throw new Error(`can't encode column '${col.name}' in RowBinary format: ${err.message}`)
+        }
+    })
+
+    let sink = new Sink()
+
+    return row => {
+        sink.reset()
+        for (let i = 0; i < columns.length; i++) {
+            let col = columns[i]
+            try {
+                encoders[i](sink, row[col.name])
+            } catch(err: any) {
+                throw new Error(`failed to encode value of column '${col.name}' (${col.type}): ${err.message}`)
+            }
+        }
+        return sink.result()
+    }
+}
+
+
+type Encoder = (sink: Sink, value: unknown) => void
+
+
+function getTypeEncoder(type: string): Encoder {
+    let {name, args} = parseType(type)
+    switch(name) {
+        case 'UInt8':
+        case 'Bool':
+            return (sink, value) => sink.u8(toInteger(value, 0, 0xff))
+        case 'UInt16':
+            return (sink, value) => sink.u16(toInteger(value, 0, 0xffff))
+        case 'UInt32':
+            return (sink, value) => sink.u32(toInteger(value, 0, 0xffffffff))
+        case 'Int8':
+            return (sink, value) => sink.u8(toInteger(value, -0x80, 0x7f) & 0xff)
+        case 'Int16':
+            return (sink, value) => sink.u16(toInteger(value, -0x8000, 0x7fff) & 0xffff)
+        case 'Int32':
+            return (sink, value) => sink.u32(toInteger(value, -0x80000000, 0x7fffffff) >>> 0)
+        case 'UInt64':
+            return bigIntEncoder(64, false)
+        case 'UInt128':
+            return bigIntEncoder(128, false)
+        case 'UInt256':
+            return bigIntEncoder(256, false)
+        case 'Int64':
+            return bigIntEncoder(64, true)
+        case 'Int128':
+            return bigIntEncoder(128, true)
+        case 'Int256':
+            return bigIntEncoder(256, true)
+        case 'Float32':
+            return (sink, value) => sink.f32(toFloat(value))
+        case 'Float64':
+            return (sink, value) => sink.f64(toFloat(value))
+        case 'String':
+            return (sink, value) => sink.string(toBytes(value))
+        case 'FixedString': {
+            let size = parseInt(args[0])
+            assert(Number.isSafeInteger(size) && size > 0, `invalid type ${type}`)
+            return (sink, value) => sink.fixedString(toBytes(value), size)
+        }
+        case 'Date':
+            return (sink, value) => sink.u16(Math.floor(toTimestamp(value) / 86400))
+        case 'DateTime':
+            return (sink, value) => sink.u32(toInteger(toTimestamp(value), 0, 0xffffffff))
+        case 'Nullable': {
+            let item = getTypeEncoder(args[0])
+            return (sink, value) => {
+                if (value == null) {
+                    sink.u8(1)
+                } else {
+                    sink.u8(0)
+                    item(sink, value)
+                }
+            }
+        }
+        case 'LowCardinality':
+            return getTypeEncoder(args[0])
+        case 'Array': {
+            let item = getTypeEncoder(args[0])
+            return (sink, value) => {
+                if (value == null) {
+                    sink.varint(0)
+                    return
+                }
+                assert(Array.isArray(value), 'array expected')
+                sink.varint(value.length)
+                for (let i = 0; i < value.length; i++) {
+                    item(sink, value[i])
+                }
+            }
+        }
+        default:
+            throw new Error(`type ${type} is not supported`)
+    }
+}
+
+
+function parseType(type: string): {name: string, args: string[]} {
+    let m = /^(\w+)(?:\((.*)\))?$/.exec(type.trim())
+    if (m == null) throw new Error(`failed to parse type ${type}`)
+    return {
+        name: m[1],
+        args: m[2] == null ? [] : splitArgs(m[2])
+    }
+}
+
+
+function splitArgs(args: string): string[] {
+    let result: string[] = []
+    let depth = 0
+    let quoted = false
+    let beg = 0
+    for (let i = 0; i < args.length; i++) {
+        switch(args[i]) {
+            case '\'':
+                quoted = !quoted
+                break
+            case '(':
+                if (!quoted) depth += 1
+                break
+            case ')':
+                if (!quoted) depth -= 1
+                break
+            case ',':
+                if (!quoted && depth == 0) {
+                    result.push(args.slice(beg, i).trim())
+                    beg = i + 1
+                }
+                break
+        }
+    }
+    result.push(args.slice(beg).trim())
+    return result
+}
+
+
+function bigIntEncoder(bits: number, signed: boolean): Encoder {
+    let bytes = bits / 8
+    let min = signed ? -(1n << BigInt(bits - 1)) : 0n
+    let max = signed ? (1n << BigInt(bits - 1)) - 1n : (1n << BigInt(bits)) - 1n
+    let mod = 1n << BigInt(bits)
+    return (sink, value) => {
+        let val = toBigInt(value)
+        if (val < min || val > max) throw new Error(`${val} is out of range`)
+        if (val < 0n) {
+            val += mod
+        }
+        sink.bigint(val, bytes)
+    }
+}
+
+
+function toInteger(value: unknown, min: number, max: number): number {
+    let val: number
+    switch(typeof value) {
+        case 'undefined':
+            return 0
+        case 'number':
+            val = value
+            break
+        case 'boolean':
+            val = value ? 1 : 0
+            break
+        case 'bigint':
+        case 'string':
+            val = Number(value)
+            break
+        default:
+            throw new Error(`${value} is not an integer`)
+    }
+    if (!Number.isInteger(val)) throw new Error(`${value} is not an integer`)
+    if (val < min || val > max) throw new Error(`${value} is out of range`)
+    return val
+}
+
+
+function toBigInt(value: unknown): bigint {
+    switch(typeof value) {
+        case 'undefined':
+            return 0n
+        case 'bigint':
+            return value
+        case 'number':
+        case 'string':
+        case 'boolean':
+            return BigInt(value)
+        default:
+            throw new Error(`${value} is not an integer`)
+    }
+}
+
+
+function toFloat(value: unknown): number {
+    switch(typeof value) {
+        case 'undefined':
+            return 0
+        case 'number':
+            return value
+        case 'bigint':
+        case 'string':
+            return Number(value)
+        default:
+            throw new Error(`${value} is not a number`)
+    }
+}
+
+
+function toBytes(value: unknown): Uint8Array {
+    if (value === undefined) return new Uint8Array(0)
+    if (typeof value == 'string') return Buffer.from(value)
+    if (value instanceof Uint8Array) return value
+    throw new Error(`${value} is not a string`)
+}
+
+
+/**
+ * Get unix timestamp in seconds
+ */
+function toTimestamp(value: unknown): number {
+    if (value === undefined) return 0
+    if (value instanceof Date) return Math.floor(value.getTime() / 1000)
+    if (typeof value == 'number') return value
+    if (typeof value == 'string') {
+        if (/^\d+$/.test(value)) return Number(value)
+        let iso = value.replace(' ', 'T')
+        if (iso.includes('T') && !/(Z|[+-]\d\d(:?\d\d)?)$/i.test(iso)) {
+            iso += 'Z'
+        }
+        let time = Date.parse(iso)
+        if (Number.isNaN(time)) throw new Error(`${value} is not a timestamp`)
+        return Math.floor(time / 1000)
+    }
+    throw new Error(`${value} is not a timestamp`)
+}
+
+
+class Sink {
+    private buf = Buffer.allocUnsafe(1024)
+    private pos = 0
+
+    reset(): void {
+        this.pos = 0
+    }
+
+    result(): Uint8Array {
+        return Buffer.from(this.buf.subarray(0, this.pos))
+    }
+
+    u8(val: number): void {
+        this.reserve(1)
+        this.buf[this.pos] = val
+        this.pos += 1
+    }
+
+    u16(val: number): void {
+        this.reserve(2)
+        this.buf.writeUInt16LE(val, this.pos)
+        this.pos += 2
+    }
+
+    u32(val: number): void {
+        this.reserve(4)
+        this.buf.writeUInt32LE(val, this.pos)
+        this.pos += 4
+    }
+
+    f32(val: number): void {
+        this.reserve(4)
+        this.buf.writeFloatLE(val, this.pos)
+        this.pos += 4
+    }
+
+    f64(val: number): void {
+        this.reserve(8)
+        this.buf.writeDoubleLE(val, this.pos)
+        this.pos += 8
+    }
+
+    bigint(val: bigint, bytes: number): void {
+        this.reserve(bytes)
+        for (let i = 0; i < bytes; i++) {
+            this.buf[this.pos + i] = Number(val & 0xffn)
+            val >>= 8n
+        }
+        this.pos += bytes
+    }
+
+    varint(val: number): void {
+        this.reserve(10)
+        while (val >= 0x80) {
+            this.buf[this.pos] = (val & 0x7f) | 0x80
+            this.pos += 1
+            val = Math.floor(val / 128)
+        }
+        this.buf[this.pos] = val
+        this.pos += 1
+    }
+
+    string(bytes: Uint8Array): void {
+        this.varint(bytes.length)
+        this.reserve(bytes.length)
+        this.buf.set(bytes, this.pos)
+        this.pos += bytes.length
+    }
+
+    fixedString(bytes: Uint8Array, size: number): void {
+        if (bytes.length > size) throw new Error(`value is longer than ${size} bytes`)
+        this.reserve(size)
+        this.buf.set(bytes, this.pos)
+        this.buf.fill(0, this.pos + bytes.length, this.pos + size)
+        this.pos += size
+    }
+
+    private reserve(bytes: number): void {
+        if (this.buf.length - this.pos >= bytes) return
+        let buf = Buffer.allocUnsafe(Math.max(this.buf.length * 2, this.pos + bytes))
+        this.buf.copy(buf, 0, 0, this.pos)
+        this.buf = buf
+    }
+}
@@ -0,0 +1,340 @@
+import {groupBy} from '../util/misc'
+import type {ClickhouseClient} from './client'
+import {MIGRATIONS_TABLE} from './migrations'
+import type {ColumnDef} from './row-binary'
+
+
+/**
+ * ClickHouse column definition.
+ *
+ * `T` is the TypeScript type of column values as produced by a mapping function.
+ */
+export interface Column<T> {
+    readonly type: string
+    /**
+     * Phantom property carrying the value type, it is never set
+     */
+    readonly __value?: T
+}
+
+
+function col<T>(type: string): Column<T> {
+    return {type}
+}
+
+
+/**
+ * Column type constructors.
+ *
+ * 64-bit and wider integers as well as decimals are represented with strings (or numbers),
+ * because `bigint` values can't be serialized to JSON.
+ */
+export const column = {
+    UInt8: () => col<number>('UInt8'),
+    UInt16: () => col<number>('UInt16'),
+    UInt32: () => col<number>('UInt32'),
+    UInt64: () => col<string | number>('UInt64'),
+    UInt128: () => col<string | number>('UInt128'),
+    UInt256: () => col<string | number>('UInt256'),
+    Int8: () => col<number>('Int8'),
+    Int16: () => col<number>('Int16'),
+    Int32: () => col<number>('Int32'),
+    Int64: () => col<string | number>('Int64'),
+    Int128: () => col<string | number>('Int128'),
+    Int256: () => col<string | number>('Int256'),
+    Float32: () => col<number>('Float32'),
+    Float64: () => col<number>('Float64'),
+    Decimal: (precision: number, scale: number) => col<string | number>(`Decimal(${precision}, ${scale})`),
+    Bool: () => col<boolean>('Bool'),
+    String: () => col<string>('String'),
+    FixedString: (size: number) => col<string>(`FixedString(${size})`),
+    /**
+     * Unix timestamp in seconds
+     */
+    DateTime: () => col<number>('DateTime'),
+    Nullable: <T>(item: Column<T>) => col<T | null>(`Nullable(${item.type})`),
+    LowCardinality: <T>(item: Column<T>) => col<T>(`LowCardinality(${item.type})`),
+    Array: <T>(item: Column<T>) => col<T[]>(`Array(${item.type})`)
+}
+
+
+export type ColumnValue<C> = C extends Column<infer T> ? T : never
+
+
+export interface TableDef<C extends Record<string, Column<any>> = Record<string, Column<any>>> {
+    /**
+     * Table columns, except `block_number`, `block_hash` and `block_timestamp`,
+     * which are added and populated by the framework.
+     */
+    columns: C
+    /**
+     * `ORDER BY` expressions
+     */
+    orderBy: string[]
+    /**
+     * `PARTITION BY` expression
+     */
+    partitionBy?: string
+    /**
+     * Table engine.
+     *
+     * Default: `MergeTree()`
+     */
+    engine?: string
+}
+
+
+/**
+ * Type of rows of the given table, as they should be returned by a mapping function.
+ */
+export type TableRow<T> = T extends TableDef<infer C> ? {[K in keyof C]: ColumnValue<C[K]>} : never
+
+
+export interface SchemaDef<T extends Record<string, TableDef>> {
+    /**
+     * Type of block number columns.
+     *
+     * Default: `UInt64`
+     */
+    blockNumber?: 'UInt32' | 'UInt64'
+    /**
+     * Type of block hash columns.
+     *
+     * Default: `String`
+     */
+    blockHash?: string
+    /**
+     * Whether blocks have `parent_number` column (should be set for Solana datasets).
+     *
+     * Default: `false`
+     */
+    parentNumber?: boolean
+    /**
+     * Block item tables
+     */
+    tables: T
+}
+
+
+const RESERVED_TABLES = ['blocks', MIGRATIONS_TABLE]
+const BLOCK_ITEM_COLUMNS = ['block_number', 'block_hash', 'block_timestamp']
+
+
+/**
+ * Declarative definition of the target database.
+ *
+ * It serves as the single source of truth for
+ *
+ * 1. types of rows produced by a mapping function (see {@link SchemaRows})
+ * 2. `CREATE TABLE` statements of all tables including `blocks` (see {@link DatabaseSchema.getCreateStatements})
+ * 3. validation of the live database at the start of processing (see {@link verifySchema})
+ */
+export class DatabaseSchema<T extends Record<string, TableDef>> {
+    public readonly tables: T
+    private blockNumber: string
+    private blockHash: string
+    private parentNumber: boolean
+
+    constructor(def: SchemaDef<T>) {
+        this.tables = def.tables
+        this.blockNumber = def.blockNumber ?? 'UInt64'
+        this.blockHash = def.blockHash ?? 'String'
+        this.parentNumber = def.parentNumber ?? false
+
+        for (let name in this.tables) {
+            if (RESERVED_TABLES.includes(name)) throw new Error(`table name '${name}' is reserved`)
+            for (let column in this.tables[name].columns) {
+                if (BLOCK_ITEM_COLUMNS.includes(column)) throw new Error(
+                    `column '${column}' of table '${name}' is added by the framework and must not be defined`
+                )
+            }
+            if (this.tables[name].orderBy.length == 0) throw new Error(
+                `ORDER BY of table '${name}' is empty`
+            )
+        }
+    }
+
+    /**
+     * @returns full column lists of all tables including `blocks`
+     */
+    getColumns(): Record<string, ColumnDef[]> {
+        let blocks: ColumnDef[] = [
+            {name: 'number', type: this.blockNumber},
+            {name: 'hash', type: this.blockHash}
+        ]
+        if (this.parentNumber) {
+            blocks.push({name: 'parent_number', type: this.blockNumber})
+        }
+        blocks.push(
+            {name: 'parent_hash', type: this.blockHash},
+            {name: 'timestamp', type: 'DateTime'}
+        )
+
+        let result: Record<string, ColumnDef[]> = {blocks}
+        for (let name in this.tables) {
+            let columns = this.tables[name].columns
+            result[name] = [
+                {name: 'block_number', type: this.blockNumber},
+                {name: 'block_hash', type: this.blockHash},
+                {name: 'block_timestamp', type: 'DateTime'},
+                ...Object.keys(columns).map(col => ({name: col, type: columns[col].type}))
+            ]
+        }
+        return result
+    }
+
+    /**
+     * @returns table definitions of all tables including `blocks`
+     */
+    getTables(): Record<string, Omit<TableDef, 'columns'>> {
+        let result: Record<string, Omit<TableDef, 'columns'>> = {
+            blocks: {orderBy: ['number']}
+        }
+        for (let name in this.tables) {
+            result[name] = this.tables[name]
+        }
+        return result
+    }
+
+    /**
+     * Generate `CREATE TABLE` statements of all tables including `blocks`.
+     *
+     * Table names are qualified with the database name when it is given.
+     */
+    getCreateStatements(database?: string): string[] {
+        let columns = this.getColumns()
+        let tables = this.getTables()
+        let statements: string[] = []
+        for (let name in tables) {
+            let table = tables[name]
+            let sql = `CREATE TABLE ${database ? database + '.' : ''}${name}\n(\n`
+            sql += columns[name].map(col => `    ${col.name} ${col.type}`).join(',\n')
+            sql += `\n)\nENGINE = ${table.engine ?? 'MergeTree()'}\n`
+            if (table.partitionBy) {
+                sql += `PARTITION BY ${table.partitionBy}\n`
+            }
+            sql += `ORDER BY (${table.orderBy.join(', ')})`
+            statements.push(sql)
+        }
+        return statements
+    }
+}
+
+
+export function defineSchema<T extends Record<string, TableDef>>(def: SchemaDef<T>): DatabaseSchema<T> {
+    return new DatabaseSchema(def)
+}
+
+
+/**
+ * Type of data returned by a mapping function for the given schema
+ */
+export type SchemaRows<S> = S extends DatabaseSchema<infer T> ? {[N in keyof T]: TableRow<T[N]>[]} : never
+
+
+export class SchemaMismatchError extends Error {
+    constructor(
+        public database: string,
+        public problems: string[]
+    ) {
+        super(`database '${database}' does not match the schema definition:\n  ${problems.join('\n  ')}`)
+    }
+
+    get name(): string {
+        return 'SchemaMismatchError'
+    }
+}
+
+
+/**
+ * Verify, that the live database matches the schema definition.
+ *
+ * Checked are the set of tables, column names, their types and order,
+ * table engines as well as sorting and partition keys.
+ *
+ * @throws {SchemaMismatchError} listing all found discrepancies
+ */
+export async function verifySchema(
+    clickhouse: ClickhouseClient,
+    database: string,
+    schema: DatabaseSchema<any>
+): Promise<void> {
+    let liveTables = await clickhouse.query<{name: string, engine: string, sorting_key: string, partition_key: string}>(
+        'SELECT name, engine, sorting_key, partition_key FROM system.tables WHERE database = {db:String}',
+        {db: database}
+    ).then(res => {
+        return new Map(res.data.map(t => [t.name, t]))
+    })
+
+    let liveColumns = await clickhouse.query<{table: string, name: string, type: string}>(
+        'SELECT table, name, type FROM system.columns WHERE database = {db:String} ORDER BY table, position',
+        {db: database}
+    ).then(res => {
+        return groupBy(res.data, col => col.table)
+    })
+
+    let problems: string[] = []
+    let tables = schema.getTables()
+    let columns = schema.getColumns()
+
+    for (let name in tables) {
+        let live = liveTables.get(name)
+        if (live == null) {
+            problems.push(`table '${name}' does not exist`)
+            continue
+        }
+
+        let table = tables[name]
+
+        let engine = (table.engine ?? 'MergeTree()').replace(/\(.*$/s, '').trim()
+        if (live.engine != engine) {
+            problems.push(`table '${name}' has engine ${live.engine}, but ${engine} was expected`)
+        }
+
+        if (normalizeExpr(live.sorting_key) != normalizeExpr(table.orderBy.join(','))) {
+            problems.push(`table '${name}' is ordered by (${live.sorting_key}), but (${table.orderBy.join(', ')}) was expected`)
+        }
+
+        if (normalizeExpr(live.partition_key) != normalizeExpr(table.partitionBy ?? '')) {
+            problems.push(
+                `table '${name}' is partitioned by ${live.partition_key || 'nothing'}, ` +
+                `but ${table.partitionBy || 'nothing'} was expected`
+            )
+        }
+
+        let liveTableColumns = liveColumns.get(name) ?? []
+        for (let col of columns[name]) {
+            let liveCol = liveTableColumns.find(c => c.name == col.name)
+            if (liveCol == null) {
+                problems.push(`column '${name}.${col.name}' does not exist`)
+            } else if (normalizeExpr(liveCol.type) != normalizeExpr(col.type)) {
+                problems.push(`column '${name}.${col.name}' has type ${liveCol.type}, but ${col.type} was expected`)
+            }
+        }
+        for (let liveCol of liveTableColumns) {
+            if (!columns[name].some(c => c.name == liveCol.name)) {
+                problems.push(`column '${name}.${liveCol.name}' is not defined in the schema`)
+            }
+        }
+
+        // positions matter for `RowBinary` inserts
+        let order = columns[name].map(c => c.name).filter(col => liveTableColumns.some(c => c.name == col))
+        let liveOrder = liveTableColumns.map(c => c.name).filter(col => order.includes(col))
+        if (order.join() != liveOrder.join()) {
+            problems.push(`columns of table '${name}' are ordered as (${liveOrder.join(', ')}), but (${order.join(', ')}) was expected`)
+        }
+    }
+
+    for (let name of liveTables.keys()) {
+        if (tables[name] == null && !RESERVED_TABLES.includes(name)) {
+            problems.push(`table '${name}' is not defined in the schema`)
+        }
+    }
+
+    if (problems.length > 0) throw new SchemaMismatchError(database, problems)
+}
+
+
+function normalizeExpr(expr: string): string {
+    return expr.replace(/\s+/g, '').replace(/^\((.*)\)$/, '$1')
+}
@@ -1,12 +1,18 @@
 import type {AgentProvider} from '@subsquid/http-client'
-import assert from 'node:assert'
+import {createLogger} from '@subsquid/logger'
 import * as http from 'node:http'
 import * as https from 'node:https'
-import type {Writable} from 'node:stream'
+import {pipeline, Readable, Transform, Writable} from 'node:stream'
 import {StringDecoder} from 'node:string_decoder'
+import * as zlib from 'node:zlib'
+import {createCompressStream, createDecompressStream} from '../util/compression'
+import {createLz4CompressStream} from '../util/lz4'
 import {ensureError} from '../util/misc'
 
 
+const log = createLogger('core:clickhouse:upload')
+
+
 export interface UploadOptions {
     method?: 'POST' | 'PUT'
     query?: Record<string, string | number | bigint>
@@ -14,9 +20,20 @@ export interface UploadOptions {
     username?: string
     password?: string
     agent?: AgentProvider
+    /**
+     * Abort the upload when there was no network activity for the given number of milliseconds.
+     */
+    idleTimeout?: number
+    /**
+     * Compress the request body with the given `Content-Encoding`.
+     */
+    compression?: UploadCompression
 }
 
 
+export type UploadCompression = 'gzip' | 'zstd' | 'lz4'
+
+
 export function createUpload<R = any>(url: string, options: UploadOptions = {}): Upload<R> {
     let u = new URL(url)
 
@@ -55,15 +72,29 @@ export function createUpload<R = any>(url: string, options: UploadOptions = {}):
         params.headers.authorization = `Basic ${btoa(u.username + ':' + u.password)}`
     }
 
+    let compressor: Transform | undefined
+    if (options.compression) {
+        // created before the request, so that no request is left behind when compression is unavailable
+        compressor = options.compression == 'lz4'
+            ? createLz4CompressStream()
+            : createCompressStream(options.compression)
+        params.headers['content-encoding'] = options.compression
+    }
+
     let request = u.protocol == 'https:'
         ? https.request
         : http.request
 
-    return new HttpUpload(request(params))
+    return new HttpUpload(
+        request(params),
+        options.idleTimeout,
+        compressor
+    )
 }
 
 
 export interface Upload<R> {
+    readonly id: number
     readonly input: Writable
     result(): Promise<R>
     abort(): void
@@ -71,10 +102,29 @@ export interface Upload<R> {
 }
 
 
+let lastUploadId = 0
+
+
 class HttpUpload<R = any> implements Upload<R> {
+    public readonly id = ++lastUploadId
+    public readonly input: Writable
     private resultPromise: Promise<R>
 
-    constructor(private req: http.ClientRequest) {
+    constructor(private req: http.ClientRequest, idleTimeout?: number, compressor?: Transform) {
+        if (compressor) {
+            this.input = compressor
+            pipeline(compressor, req, () => {})
+        } else {
+            this.input = req
+        }
+
+        if (idleTimeout) {
+            req.setTimeout(idleTimeout, () => {
+                log.warn({uploadId: this.id, idleTimeout}, 'upload stalled, aborting')
+                req.destroy(new UploadStallError(this.id, idleTimeout))
+            })
+        }
+
         this.resultPromise = new Promise((resolve, reject) => {
             req.on('error', err => {
                 reject(ensureError(err))
@@ -127,10 +177,6 @@ class HttpUpload<R = any> implements Upload<R> {
         this.req.on('close', cleanup)
     }
 
-    get input(): Writable {
-        return this.req
-    }
-
     result(): Promise<R> {
         return this.resultPromise
     }
@@ -164,13 +210,11 @@ async function handleResponse(res: http.IncomingMessage): Promise<any> {
 
 
 async function consumeTextBody(res: http.IncomingMessage): Promise<string> {
-    assert(res.headers['content-encoding'] == null, 'Content-Encoding header is not supported')
-
     let decoder = new StringDecoder('utf-8')
     let body = ''
     let size = 0
 
-    for await (let chunk of res) {
+    for await (let chunk of decodeContent(res)) {
         size += chunk.length
         if (size > 16 * 1024 * 1024) {
             throw new Error('Max response size of 16 MB exceeded')
@@ -182,6 +226,26 @@ async function consumeTextBody(res: http.IncomingMessage): Promise<string> {
 }
 
 
+function decodeContent(res: http.IncomingMessage): Readable {
+    let encoding = res.headers['content-encoding']
+    switch(encoding) {
+        case undefined:
+        case 'identity':
+            return res
+        case 'gzip':
+        case 'zstd':
+            return pipeline(res, createDecompressStream(encoding), () => {})
+        case 'deflate':
+            return pipeline(res, zlib.createInflate(), () => {})
+        case 'br':
+            return pipeline(res, zlib.createBrotliDecompress(), () => {})
+        default:
+            res.resume()
+            throw new Error(`Content-Encoding '${encoding}' is not supported`)
+    }
+}
+
+
 export class UploadResponseError extends Error {
     constructor(
         public status: number,
@@ -199,3 +263,17 @@ export class UploadResponseError extends Error {
         return 'UploadResponseError'
     }
 }
+
+
+export class UploadStallError extends Error {
+    constructor(
+        public uploadId: number,
+        public idleTimeout: number
+    ) {
+        super(`upload ${uploadId} stalled: there was no network activity for ${idleTimeout} ms`)
+    }
+
+    get name(): string {
+        return 'UploadStallError'
+    }
+}
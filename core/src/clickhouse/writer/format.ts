@@ -0,0 +1,44 @@
+import type {ClickhouseDataFormat} from '../client'
+import {ColumnDef, createRowBinaryEncoder} from '../row-binary'
+
+
+/**
+ * Data format used for inserts.
+ *
+ * `RowBinary` is much cheaper to produce and to parse,
+ * but omitted values are inserted as zero values of column types rather than column defaults.
+ */
+export type InsertFormat = 'JSONEachRow' | 'RowBinary'
+
+
+export interface RowSerializer {
+    format: ClickhouseDataFormat
+    columns?: string[]
+    serialize(row: Record<string, unknown>): string | Uint8Array
+}
+
+
+export function createRowSerializer(
+    table: string,
+    format: InsertFormat,
+    columns?: ColumnDef[]
+): RowSerializer {
+    switch(format) {
+        case 'JSONEachRow':
+            return {
+                format,
+                serialize: row => JSON.stringify(row)
+            }
+        case 'RowBinary':
+            if (columns == null) {
+                throw new Error(`column definitions of '${table}' are required for RowBinary inserts`)
+            }
+            return {
+                format,
+                columns: columns.map(col => col.name),
+                serialize: createRowBinaryEncoder(columns)
+            }
+        default:
+            throw new Error(`unsupported insert format - ${format}`)
+    }
+}
@@ -1,20 +1,52 @@
 import {createLogger, Logger} from '@subsquid/logger'
 import assert from 'node:assert'
-import {waitDrain} from '../../util/io'
-import {bisect, ensureError, last, maybeLast} from '../../util/misc'
+import {randomUUID} from 'node:crypto'
+import {bisect, ensureError, last} from '../../util/misc'
 import {Semaphore} from '../../util/semaphore'
 import type {ClickhouseClient} from '../client'
-import {TableOptions, TableWriter} from './table-writer'
+import type {ColumnDef} from '../row-binary'
+import type {UploadCompression} from '../upload'
+import {createRowSerializer, InsertFormat, RowSerializer} from './format'
+import {InsertRetryPolicy, RetriableInsert} from './insert'
+import {getInsertRetryPolicy, TableOptions, TableWriter} from './table-writer'
 import {Block, BlockHeader} from './types'
 
 
-export {TableOptions, Block, BlockHeader}
+export {TableOptions, Block, BlockHeader, InsertFormat}
+
+
+export interface BlockWriterOptions extends Pick<TableOptions, 'maxInsertAttempts' | 'insertRetrySchedule'> {
+    /**
+     * Column definitions per table (including `blocks` table).
+     *
+     * Required for `RowBinary` inserts.
+     */
+    columns?: Record<string, ColumnDef[]>
+    /**
+     * Default insert format for tables, that don't specify it explicitly.
+     * This format is also used for `blocks` table.
+     *
+     * Default: `JSONEachRow`
+     */
+    format?: InsertFormat
+    /**
+     * Compression of `blocks` table inserts.
+     */
+    compression?: UploadCompression
+    /**
+     * Don't insert completely written blocks into `blocks` table.
+     *
+     * Used for re-indexing of already processed blocks.
+     */
+    skipBlocksTable?: boolean
+}
 
 
 export class BlockWriter {
     private tables: Record<string, TableWriter> = {}
     private pending: BlockHeader[] = []
     private head?: BlockHeader
+    private commitHead?: BlockHeader
     private commitPromise?: Promise<void>
     private error?: Error
     private flushing = false
@@ -22,20 +54,38 @@ export class BlockWriter {
     private uploadAbort = new AbortController()
     private lowWaterMark = 1024
     private highWaterMark = 4096
+    private serializer: RowSerializer
+    private compression?: UploadCompression
+    private skipBlocksTable: boolean
+    private retry: InsertRetryPolicy
+    private session = randomUUID()
     private log: Logger
 
     constructor(
         private clickhouse: ClickhouseClient,
         private database: string,
-        tables: Record<string, TableOptions>
+        tables: Record<string, TableOptions>,
+        options: BlockWriterOptions = {}
     ) {
         this.log = createLogger('core:clickhouse:writer:block')
 
+        let format = options.format ?? 'JSONEachRow'
+        this.compression = options.compression
+        this.skipBlocksTable = options.skipBlocksTable ?? false
+        this.retry = getInsertRetryPolicy(options)
+
+        this.serializer = createRowSerializer(
+            database + '.blocks',
+            format,
+            options.columns?.['blocks']
+        )
+
         for (let table in tables) {
             let writer = new TableWriter(
                 clickhouse,
                 database + '.' + table,
-                tables[table]
+                {...tables[table], format: tables[table].format ?? format},
+                options.columns?.[table]
             )
             writer.on('error', err => this.fail(err))
             this.tables[table] = writer
@@ -46,6 +96,13 @@ export class BlockWriter {
         return this.error == null
     }
 
+    /**
+     * Number of the last block persisted in the `blocks` table
+     */
+    getLastCommittedBlockNumber(): number {
+        return this.commitHead?.number ?? -1
+    }
+
     push(block: Block): void {
         this.assertHealth()
         if (this.head) {
@@ -193,18 +250,28 @@ export class BlockWriter {
 
         this.log.debug(`${blocksToCommit.length} block(s) to commit`)
 
-        let upload = this.clickhouse.insert({
-            table: this.database + '.blocks',
-            format: 'JSONEachRow'
-        })
+        if (blocksToCommit.length == 0 || this.skipBlocksTable) return
+
+        let table = this.database + '.blocks'
+        let first = blocksToCommit[0]
+        let lastBlock = last(blocksToCommit)
 
-        upload.abortOnSignal(this.uploadAbort.signal)
+        let insert = new RetriableInsert(
+            this.clickhouse,
+            {
+                table,
+                format: this.serializer.format,
+                columns: this.serializer.columns,
+                compression: this.compression,
+                deduplicationToken: `${this.session}:${table}:${first.number}-${lastBlock.number}`
+            },
+            this.retry,
+            this.uploadAbort.signal,
+            this.log
+        )
 
         for (let block of blocksToCommit) {
-            if (upload.input.writableNeedDrain) {
-                await waitDrain(upload.input)
-            }
-            upload.input.write(JSON.stringify({
+            await insert.write(this.serializer.serialize({
                 number: block.number,
                 hash: block.hash,
                 parent_number: block.parentNumber,
@@ -212,12 +279,13 @@ export class BlockWriter {
                 timestamp: block.timestamp
             }))
         }
-        upload.input.end()
 
-        await upload.result()
+        await insert.end()
+
+        this.commitHead = lastBlock
 
         this.log.debug({
-            commitHead: maybeLast(blocksToCommit),
+            commitHead: this.commitHead,
             pendingBlocks: this.pending.length
         }, 'commit completed')
     }
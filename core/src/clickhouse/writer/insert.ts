@@ -0,0 +1,136 @@
+import type {Logger} from '@subsquid/logger'
+import {registry} from '../../prometheus'
+import {wait} from '../../util/async'
+import {waitDrain} from '../../util/io'
+import type {ClickhouseClient, InsertArgs} from '../client'
+import {Upload, UploadResponseError} from '../upload'
+
+
+const durationHistogram = registry.histogram(
+    'sqd_clickhouse_insert_duration_seconds',
+    'Duration of successful insert queries including retries'
+)
+const retryCounter = registry.counter('sqd_clickhouse_insert_retries_total', 'Number of retried insert queries')
+
+
+export interface InsertRetryPolicy {
+    attempts: number
+    schedule: number[]
+}
+
+
+/**
+ * Insert, that keeps everything written to it in memory,
+ * so that it can be repeated with the same deduplication token in case of a failure.
+ *
+ * Data is streamed to ClickHouse as it is written.
+ * Once the current upload fails, further data is only buffered
+ * and will be sent by the next attempt.
+ */
+export class RetriableInsert {
+    private chunks: (string | Uint8Array)[] = []
+    private upload: Upload<void>
+    private failed = false
+    private startTime = Date.now()
+
+    constructor(
+        private clickhouse: ClickhouseClient,
+        private args: InsertArgs & {deduplicationToken: string},
+        private retry: InsertRetryPolicy,
+        private abortSignal: AbortSignal,
+        private log: Logger
+    ) {
+        this.upload = this.startUpload()
+    }
+
+    get uploadId(): number {
+        return this.upload.id
+    }
+
+    get isFailed(): boolean {
+        return this.failed || this.upload.input.destroyed
+    }
+
+    write(chunk: string | Uint8Array): void | Promise<void> {
+        this.chunks.push(chunk)
+        if (this.isFailed) return
+        if (this.upload.input.writableNeedDrain) {
+            return this.writeAfterDrain(chunk)
+        }
+        this.upload.input.write(chunk)
+    }
+
+    private async writeAfterDrain(chunk: string | Uint8Array): Promise<void> {
+        try {
+            await waitDrain(this.upload.input)
+        } catch(err: any) {
+            this.failed = true
+            return
+        }
+        this.upload.input.write(chunk)
+    }
+
+    async end(): Promise<void> {
+        let attempt = 1
+        this.upload.input.end()
+        while (true) {
+            try {
+                await this.upload.result()
+                durationHistogram.observe((Date.now() - this.startTime) / 1000, {table: this.args.table})
+                return
+            } catch(err: any) {
+                if (this.abortSignal.aborted || attempt >= this.retry.attempts || !isRetriableInsertError(err)) {
+                    throw err
+                }
+                let pause = this.retry.schedule[Math.min(attempt, this.retry.schedule.length) - 1] ?? 0
+                this.log.warn({
+                    uploadId: this.upload.id,
+                    deduplicationToken: this.args.deduplicationToken,
+                    attempt,
+                    pause,
+                    reason: String(err)
+                }, 'insert failed, will retry')
+                retryCounter.inc(1, {table: this.args.table})
+                await wait(pause, this.abortSignal)
+                attempt += 1
+                this.upload = this.startUpload()
+                await this.resend()
+            }
+        }
+    }
+
+    private startUpload(): Upload<void> {
+        this.failed = false
+        let upload = this.clickhouse.insert(this.args)
+        upload.abortOnSignal(this.abortSignal)
+        return upload
+    }
+
+    private async resend(): Promise<void> {
+        let input = this.upload.input
+        for (let chunk of this.chunks) {
+            if (input.writableNeedDrain) {
+                try {
+                    await waitDrain(input)
+                } catch(err: any) {
+                    // the error is reported by `upload.result()`
+                    break
+                }
+            }
+            input.write(chunk)
+        }
+        input.end()
+    }
+}
+
+
+/**
+ * Failures of the network and of the server are retriable,
+ * while client errors (e.g. malformed data) are not.
+ */
+function isRetriableInsertError(err: unknown): boolean {
+    if (err instanceof UploadResponseError) {
+        return err.status >= 500 || err.status == 429
+    }
+    return true
+}
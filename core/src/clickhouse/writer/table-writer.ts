@@ -1,12 +1,17 @@
 import {createLogger, Logger} from '@subsquid/logger'
 import assert from 'node:assert'
+import {randomUUID} from 'node:crypto'
 import {EventEmitter} from 'node:events'
 import {BlockRef} from '../../common'
-import {waitDrain} from '../../util/io'
+import {registry} from '../../prometheus'
 import {ensureError} from '../../util/misc'
 import {RingQueue} from '../../util/ring-queue'
 import {Semaphore} from '../../util/semaphore'
 import type {ClickhouseClient} from '../client'
+import type {ColumnDef} from '../row-binary'
+import type {UploadCompression} from '../upload'
+import {createRowSerializer, InsertFormat, RowSerializer} from './format'
+import {InsertRetryPolicy, RetriableInsert} from './insert'
 import {BlockHeader} from './types'
 
 
@@ -29,12 +34,62 @@ export interface TableOptions {
     /**
      * Maximum duration of a single insert query.
      *
+     * An insert covers at most the rows queued at the moment it starts.
+     * Once this duration is exceeded, it ends at the next block boundary.
+     *
      * Default: 16 secs
      */
     maxInsertDuration?: number
+    /**
+     * Maximum period of network inactivity during a single insert query,
+     * after which the insert is considered stalled and gets aborted.
+     *
+     * Default: 60 secs
+     */
+    maxInsertIdleTime?: number
+    /**
+     * Maximum number of attempts of a single insert query.
+     *
+     * Each insert carries `insert_deduplication_token` unique to the writer instance,
+     * so that repeated attempts don't produce duplicates
+     * even when the outcome of the previous one is unknown.
+     * Since the processor creates a new writer after every rollback,
+     * the same block range re-inserted after `DELETE` gets a different token.
+     * Note, that deduplication of non-replicated tables
+     * requires `non_replicated_deduplication_window` setting.
+     *
+     * Default: 5
+     */
+    maxInsertAttempts?: number
+    /**
+     * Pauses between insert attempts.
+     *
+     * The last pause is used for all subsequent attempts.
+     *
+     * Default: `[1000, 2000, 5000, 10000]`
+     */
+    insertRetrySchedule?: number[]
+    /**
+     * Data format of insert queries.
+     *
+     * Default: `JSONEachRow`
+     */
+    format?: InsertFormat
+    /**
+     * Compression of insert queries.
+     *
+     * Worth enabling when ClickHouse is not on the same host.
+     * `zstd` requires Node.js v22.15 or higher.
+     *
+     * Default: no compression
+     */
+    compression?: UploadCompression
 }
 
 
+const pendingRowsGauge = registry.gauge('sqd_clickhouse_pending_rows', 'Number of rows waiting to be inserted')
+
+
 /**
  * Responsible for managing insert queue and inserts into particular table.
  */
@@ -48,21 +103,33 @@ export class TableWriter extends EventEmitter {
     private lowWaterMark: number
     private highWaterMark: number
     private maxInsertDuration: number
+    private maxInsertIdleTime: number
+    private retry: InsertRetryPolicy
+    private session = randomUUID()
+    private serializer: RowSerializer
+    private compression?: UploadCompression
     private log: Logger
 
     constructor(
         private clickhouse: ClickhouseClient,
         private table: string,
-        options: TableOptions = {}
+        options: TableOptions = {},
+        columns?: ColumnDef[]
     ) {
         super()
+        this.serializer = createRowSerializer(table, options.format ?? 'JSONEachRow', columns)
         this.lowWaterMark = options.lowWaterMark ?? 1024
         this.highWaterMark = options.highWaterMark ?? 32000
         this.maxInsertDuration = options.maxInsertDuration ?? 16_000
+        this.maxInsertIdleTime = options.maxInsertIdleTime ?? 60_000
+        this.compression = options.compression
+        this.retry = getInsertRetryPolicy(options)
 
         assert(this.lowWaterMark >= 0)
         assert(this.highWaterMark > 0)
         assert(this.maxInsertDuration > 0)
+        assert(this.maxInsertIdleTime > 0)
+        assert(this.retry.attempts > 0)
 
         this.log = createLogger('clickhouse:writer:table', {
             table: this.table
@@ -76,6 +143,7 @@ export class TableWriter extends EventEmitter {
     push(block: BlockHeader, rows: object[]): void {
         this.assertHealth()
         this.queue.push(block, rows)
+        pendingRowsGauge.set(this.queue.pendingRows, {table: this.table})
         if (this.queue.pendingRows > this.highWaterMark) {
             this.put.unready()
             this.startWrite()
@@ -139,57 +207,73 @@ export class TableWriter extends EventEmitter {
     }
 
     private async write(): Promise<void> {
-        this.log.debug({
-            pendingRows: this.queue.pendingRows
-        }, 'upload started')
-
         let start = Date.now()
-        let now = start
+        let rowsToWrite = this.queue.pendingRows
+        let first = this.queue.firstPendingBlock
+        assert(first != null, 'there are no rows to write')
         let lastCompleteBlock: BlockHeader | undefined
         let rowsWritten = 0
 
-        let upload = this.clickhouse.insert({
-            table: this.table,
-            format: 'JSONEachRow'
-        })
-
-        upload.abortOnSignal(this.uploadAbort.signal)
+        let insert = new RetriableInsert(
+            this.clickhouse,
+            {
+                table: this.table,
+                format: this.serializer.format,
+                columns: this.serializer.columns,
+                idleTimeout: this.maxInsertIdleTime,
+                compression: this.compression,
+                deduplicationToken: `${this.session}:${this.table}:${first.number}`
+            },
+            this.retry,
+            this.uploadAbort.signal,
+            this.log
+        )
 
-        while (this.queue.pendingRows > 0 && now - start < this.maxInsertDuration) {
-            if (upload.input.writableNeedDrain) {
-                await waitDrain(upload.input)
-                now = Date.now()
-            }
+        this.log.debug({
+            uploadId: insert.uploadId,
+            pendingRows: this.queue.pendingRows
+        }, 'upload started')
 
+        // Retries resend the rows written so far,
+        // hence the insert keeps going even after failure of the current attempt.
+        while (rowsWritten < rowsToWrite) {
             let e = this.queue.nextRow()
             if (this.queue.pendingRows < this.highWaterMark) {
                 this.put.ready()
             }
 
-            upload.input.write(
-                serialize(e)
+            let promise = insert.write(
+                this.serializer.serialize({
+                    block_number: e.block.number,
+                    block_hash: e.block.hash,
+                    block_timestamp: e.block.timestamp,
+                    ...e.row
+                })
             )
+            if (promise) {
+                await promise
+            }
+
+            rowsWritten += 1
 
             if (e.isLastInTheBlock) {
                 lastCompleteBlock = e.block
+                if (Date.now() - start >= this.maxInsertDuration) break
             }
-
-            rowsWritten += 1
         }
 
-        upload.input.end()
-
         if (this.queue.pendingRows == 0) {
             lastCompleteBlock = this.queue.lastSeenBlock
         }
 
-        await upload.result()
+        await insert.end()
 
-        if (lastCompleteBlock) {
-            this.commitHead = lastCompleteBlock
-        }
+        pendingRowsGauge.set(this.queue.pendingRows, {table: this.table})
+
+        this.commitHead = lastCompleteBlock
 
         this.log.debug({
+            uploadId: insert.uploadId,
             rowsWritten,
             commitHead: this.commitHead,
             pendingRows: this.queue.pendingRows,
@@ -198,13 +282,11 @@ export class TableWriter extends EventEmitter {
 }
 
 
-function serialize(e: RowEntry): string {
-    return JSON.stringify({
-        block_number: e.block.number,
-        block_hash: e.block.hash,
-        block_timestamp: e.block.timestamp,
-        ...e.row
-    })
+export function getInsertRetryPolicy(options: TableOptions): InsertRetryPolicy {
+    return {
+        attempts: options.maxInsertAttempts ?? 5,
+        schedule: options.insertRetrySchedule ?? [1000, 2000, 5000, 10000]
+    }
 }
 
 
@@ -243,28 +325,34 @@ class RowQueue {
     }
 
     nextRow(): RowEntry {
+        let current = this.advance()
+        this.pending -= 1
+        let row = current.rows.pop()!
+        return {
+            block: current.header,
+            row,
+            isLastInTheBlock: current.rows.length == 0
+        }
+    }
+
+    private advance(): Block {
         while (!this.current?.rows.length) {
             this.current = this.blocks.shift()
             assert(this.current != null, 'there are no rows to write')
             this.current.rows = reverse(this.current.rows)
         }
-
-        this.pending -= 1
-        let row = this.current.rows.pop()!
-        let block = this.current.header
-        let isLastInTheBlock = this.current.rows.length == 0
-
-        return {
-            block,
-            row,
-            isLastInTheBlock
-        }
+        return this.current
     }
 
     get pendingRows(): number {
         return this.pending
     }
 
+    get firstPendingBlock(): BlockHeader | undefined {
+        if (this.pending == 0) return
+        return this.advance().header
+    }
+
     get lastSeenBlock(): BlockHeader | undefined {
         return this.lastBlock
     }
@@ -0,0 +1,29 @@
+import {parentPort, workerData} from 'node:worker_threads'
+import type {MapWorkerRequest, MapWorkerResponse} from './map-workers'
+
+
+const port = parentPort!
+
+const mod = require(workerData.module)
+const map = mod[workerData.export]
+
+if (typeof map != 'function') {
+    throw new Error(`module ${workerData.module} does not export '${workerData.export}' function`)
+}
+
+const ctx = {
+    get state(): never {
+        throw new Error('state store is not available in map workers')
+    }
+}
+
+
+port.on('message', async (req: MapWorkerRequest) => {
+    let res: MapWorkerResponse
+    try {
+        res = {id: req.id, result: await map(req.block, ctx)}
+    } catch(err: any) {
+        res = {id: req.id, error: {message: String(err?.message ?? err), stack: err?.stack}}
+    }
+    port.postMessage(res)
+})
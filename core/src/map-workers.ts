@@ -0,0 +1,176 @@
+import assert from 'node:assert'
+import {availableParallelism} from 'node:os'
+import * as path from 'node:path'
+import {Worker} from 'node:worker_threads'
+import {createFuture, Future} from './util/async'
+
+
+export interface MapWorkersOptions {
+    /**
+     * Absolute path of the module exporting the mapping function.
+     *
+     * The module is loaded in each worker thread,
+     * hence, it must not start the processing itself.
+     */
+    module: string
+    /**
+     * Name of the exported mapping function.
+     *
+     * Default: `map`
+     */
+    export?: string
+    /**
+     * Number of worker threads.
+     *
+     * Default: number of CPUs minus one (but at least one)
+     */
+    threads?: number
+    /**
+     * Maximum number of blocks, that are dispatched to workers ahead of the block being persisted.
+     *
+     * Bounds the memory held by mapped, but not yet persisted results of large batches.
+     *
+     * Default: 10 blocks per thread
+     */
+    maxPendingBlocks?: number
+}
+
+
+export interface MapWorkerRequest {
+    id: number
+    block: unknown
+}
+
+
+export type MapWorkerResponse = {
+    id: number
+    result: unknown
+} | {
+    id: number
+    error: {message: string, stack?: string}
+}
+
+
+export class MapWorkerError extends Error {
+    constructor(message: string, public readonly workerStack?: string) {
+        super(message)
+    }
+
+    get name(): string {
+        return 'MapWorkerError'
+    }
+}
+
+
+interface PoolWorker {
+    worker: Worker
+    tasks: Map<number, Future<any>>
+}
+
+
+/**
+ * Pool of worker threads, that run the mapping function.
+ *
+ * Blocks are passed to workers via structured clone,
+ * results are delivered as promises, that can be awaited in the block order.
+ */
+export class MapWorkerPool<B, R> {
+    public readonly maxPendingBlocks: number
+    private workers: PoolWorker[] = []
+    private lastTaskId = 0
+    private closed = false
+    private error?: Error
+
+    constructor(options: MapWorkersOptions) {
+        let threads = options.threads ?? Math.max(1, availableParallelism() - 1)
+        assert(threads > 0)
+        this.maxPendingBlocks = options.maxPendingBlocks ?? threads * 10
+        assert(this.maxPendingBlocks > 0)
+        for (let i = 0; i < threads; i++) {
+            this.workers.push(this.startWorker(options))
+        }
+    }
+
+    map(block: B): Promise<R> {
+        assert(!this.closed, 'worker pool is closed')
+
+        if (this.error) {
+            let promise = Promise.reject(this.error)
+            promise.catch(() => {})
+            return promise
+        }
+
+        let w = this.workers[0]
+        for (let i = 1; i < this.workers.length; i++) {
+            if (this.workers[i].tasks.size < w.tasks.size) {
+                w = this.workers[i]
+            }
+        }
+
+        let id = ++this.lastTaskId
+        let future = createFuture<R>()
+        w.tasks.set(id, future)
+        w.worker.postMessage({id, block} satisfies MapWorkerRequest)
+
+        let promise = future.promise()
+        // rejections of results, that won't be awaited after a preceding failure, are expected
+        promise.catch(() => {})
+        return promise
+    }
+
+    /**
+     * Terminate all workers, rejecting results of not yet mapped blocks.
+     */
+    async close(): Promise<void> {
+        if (this.closed) return
+        this.closed = true
+        await Promise.all(this.workers.map(w => w.worker.terminate()))
+        for (let w of this.workers) {
+            for (let task of w.tasks.values()) {
+                task.reject(new MapWorkerError('worker pool was closed'))
+            }
+            w.tasks.clear()
+        }
+    }
+
+    private startWorker(options: MapWorkersOptions): PoolWorker {
+        let worker = new Worker(path.join(__dirname, 'map-worker-thread.js'), {
+            workerData: {
+                module: options.module,
+                export: options.export ?? 'map'
+            }
+        })
+
+        let w: PoolWorker = {worker, tasks: new Map()}
+
+        worker.on('message', (msg: MapWorkerResponse) => {
+            let task = w.tasks.get(msg.id)
+            if (task == null) return
+            w.tasks.delete(msg.id)
+            if ('error' in msg) {
+                task.reject(new MapWorkerError(msg.error.message, msg.error.stack))
+            } else {
+                task.resolve(msg.result)
+            }
+        })
+
+        let fail = (err: Error) => {
+            for (let task of w.tasks.values()) {
+                task.reject(err)
+            }
+            w.tasks.clear()
+        }
+
+        worker.on('error', fail)
+
+        worker.on('exit', code => {
+            if (this.closed) return
+            let err = new MapWorkerError(`map worker exited with code ${code}`)
+            // the pool can't be used anymore, as it would assign blocks to the dead worker
+            this.error ??= err
+            fail(err)
+        })
+
+        return w
+    }
+}
@@ -0,0 +1,283 @@
+import assert from 'node:assert'
+import type {DataBatch, DataSource, GetDataSourceBlock} from './clickhouse-processor'
+import type {BlockBase, BlockRef} from './common'
+
+
+type UnionToIntersection<U> = (U extends any ? (x: U) => void : never) extends (x: infer I) => void ? I : never
+
+
+export type MergedBlock<S extends DataSource<any>[]> = UnionToIntersection<GetDataSourceBlock<S[number]>>
+
+
+interface SourceState {
+    iterator: AsyncIterator<DataBatch<BlockBase>>
+    next?: Promise<IteratorResult<DataBatch<BlockBase>>>
+    blocks: BlockBase[]
+    /**
+     * Last block number, up to which the source was scanned
+     */
+    position: number
+    headNumber?: number
+    finalizedHeadNumber?: number
+    done: boolean
+}
+
+
+/**
+ * Data source, that merges streams of several data sources for the same chain
+ * into a single block-ordered stream.
+ *
+ * Blocks with the same number are joined into one block:
+ * the header is taken from the first source, item lists are joined
+ * and other properties are taken from the first source, which has them.
+ * Items returned by several sources (e.g. transactions requested as related items)
+ * are deduplicated by their identity fields (`transactionIndex`, `logIndex`, `traceAddress`, etc),
+ * and item lists are ordered by them.
+ *
+ * A block is emitted only after all sources have passed it,
+ * which relies on the fact, that portal streams always include the last block of the scanned range.
+ * Sources are fetched concurrently, but a source can't run ahead of the others for more than one batch.
+ *
+ * `headNumber` and `finalizedHeadNumber` of the merged stream are the minimum across sources.
+ *
+ * All sources should have the same block range.
+ */
+export class MergedDataSource<S extends DataSource<any>[]> implements DataSource<MergedBlock<S>> {
+    private sources: S
+
+    constructor(...sources: S) {
+        assert(sources.length > 0, 'at least one data source is required')
+        this.sources = sources
+    }
+
+    createDataStream(afterBlock?: BlockRef, abortSignal?: AbortSignal): AsyncIterable<DataBatch<MergedBlock<S>>> {
+        return this.stream(
+            afterBlock?.number ?? -1,
+            (source, signal) => source.createDataStream(afterBlock, signal),
+            abortSignal
+        ) as AsyncIterable<DataBatch<MergedBlock<S>>>
+    }
+
+    createRangeStream(fromBlock: number, toBlock: number, abortSignal?: AbortSignal): AsyncIterable<DataBatch<MergedBlock<S>>> {
+        for (let source of this.sources) {
+            if (source.createRangeStream == null) throw new Error('some of merged data sources do not support range streams')
+        }
+        return this.stream(
+            fromBlock - 1,
+            (source, signal) => source.createRangeStream!(fromBlock, toBlock, signal),
+            abortSignal
+        ) as AsyncIterable<DataBatch<MergedBlock<S>>>
+    }
+
+    private async *stream(
+        startPosition: number,
+        open: (source: DataSource<BlockBase>, abortSignal: AbortSignal) => AsyncIterable<DataBatch<BlockBase>>,
+        abortSignal?: AbortSignal
+    ): AsyncIterable<DataBatch<BlockBase>>
+    {
+        let abort = new AbortController()
+        let signal = abortSignal ? AbortSignal.any([abortSignal, abort.signal]) : abort.signal
+
+        let states: SourceState[] = this.sources.map(source => ({
+            iterator: open(source, signal)[Symbol.asyncIterator](),
+            blocks: [],
+            position: startPosition,
+            done: false
+        }))
+
+        try {
+            for (let s of states) {
+                fetchNext(s)
+            }
+
+            while (true) {
+                // the source, that lags behind the others, determines the progress of the merged stream
+                let s = minBy(states.filter(s => !s.done), s => s.position)
+                if (s == null) break
+
+                let res = await s.next!
+                s.next = undefined
+
+                if (res.done) {
+                    s.done = true
+                } else {
+                    let batch = res.value
+                    for (let block of batch.blocks) {
+                        s.blocks.push(block)
+                        s.position = block.header.number
+                    }
+                    s.headNumber = batch.headNumber ?? s.headNumber
+                    s.finalizedHeadNumber = batch.finalizedHeadNumber ?? s.finalizedHeadNumber
+                    fetchNext(s)
+                }
+
+                let blocks = takeMergedBlocks(states)
+                if (blocks.length > 0 || !res.done && res.value.blocks.length == 0) {
+                    yield {
+                        blocks,
+                        headNumber: minOf(states, s => s.headNumber),
+                        finalizedHeadNumber: minOf(states, s => s.finalizedHeadNumber)
+                    }
+                }
+            }
+        } finally {
+            // terminate sources, that are still running
+            abort.abort()
+            for (let s of states) {
+                if (!s.done) {
+                    s.iterator.return?.().catch(() => {})
+                }
+            }
+        }
+    }
+}
+
+
+function fetchNext(s: SourceState): void {
+    s.next = s.iterator.next()
+    // the result might be never awaited, when another source fails
+    s.next.catch(() => {})
+}
+
+
+/**
+ * Remove and join buffered blocks, that were passed by all sources
+ */
+function takeMergedBlocks(states: SourceState[]): BlockBase[] {
+    let bound = Infinity
+    for (let s of states) {
+        if (!s.done) {
+            bound = Math.min(bound, s.position)
+        }
+    }
+
+    let merged = new Map<number, BlockBase>()
+    for (let s of states) {
+        let i = 0
+        while (i < s.blocks.length && s.blocks[i].header.number <= bound) {
+            let block = s.blocks[i]
+            let prev = merged.get(block.header.number)
+            merged.set(block.header.number, prev ? mergeBlocks(prev, block) : block)
+            i += 1
+        }
+        s.blocks.splice(0, i)
+    }
+
+    return Array.from(merged.values()).sort((a, b) => a.header.number - b.header.number)
+}
+
+
+function mergeBlocks(a: BlockBase, b: BlockBase): BlockBase {
+    if (a.header.hash !== b.header.hash) {
+        throw new Error(
+            `data sources disagree on block ${a.header.number}: ` +
+            `got both ${a.header.hash} and ${b.header.hash} hashes`
+        )
+    }
+    let block: Record<string, unknown> = {...a}
+    for (let [key, value] of Object.entries(b)) {
+        if (key == 'header') continue
+        let prev = block[key]
+        if (Array.isArray(prev) && Array.isArray(value)) {
+            block[key] = mergeItems(key, prev, value)
+        } else if (prev === undefined) {
+            block[key] = value
+        }
+    }
+    return block as unknown as BlockBase
+}
+
+
+/**
+ * Fields identifying block items of each kind, items are ordered by them
+ */
+const ITEM_KEYS: Record<string, string[]> = {
+    transactions: ['transactionIndex'],
+    logs: ['transactionIndex', 'logIndex'],
+    traces: ['transactionIndex', 'traceAddress'],
+    stateDiffs: ['transactionIndex', 'address', 'key'],
+    instructions: ['transactionIndex', 'instructionAddress'],
+    balances: ['transactionIndex', 'account'],
+    tokenBalances: ['transactionIndex', 'account'],
+    rewards: ['pubkey']
+}
+
+
+/**
+ * Join item lists of the same block.
+ *
+ * Items returned by both sources are merged into one item with the union of their fields.
+ * Deduplication and ordering requires identity fields to be selected by all sources,
+ * otherwise lists are just concatenated.
+ */
+function mergeItems(kind: string, a: unknown[], b: unknown[]): unknown[] {
+    let keys = ITEM_KEYS[kind]
+    if (keys == null) return a.concat(b)
+
+    let items = new Map<string, Record<string, unknown>>()
+    for (let item of a.concat(b)) {
+        let id = getItemId(item, keys)
+        if (id == null) return a.concat(b)
+        let prev = items.get(id)
+        items.set(id, prev ? {...prev, ...item as object} : item as Record<string, unknown>)
+    }
+
+    return Array.from(items.values()).sort((x, y) => {
+        for (let key of keys) {
+            let order = compareIds(x[key], y[key])
+            if (order != 0) return order
+        }
+        return 0
+    })
+}
+
+
+function getItemId(item: unknown, keys: string[]): string | undefined {
+    if (item == null || typeof item != 'object') return
+    let id: unknown[] = []
+    for (let key of keys) {
+        let value = (item as Record<string, unknown>)[key]
+        if (value === undefined) return
+        id.push(value)
+    }
+    return JSON.stringify(id)
+}
+
+
+function compareIds(a: unknown, b: unknown): number {
+    if (Array.isArray(a) && Array.isArray(b)) {
+        for (let i = 0; i < Math.min(a.length, b.length); i++) {
+            let order = compareIds(a[i], b[i])
+            if (order != 0) return order
+        }
+        return a.length - b.length
+    }
+    if (typeof a == 'number' && typeof b == 'number') {
+        return a - b
+    }
+    let x = String(a)
+    let y = String(b)
+    return x < y ? -1 : x > y ? 1 : 0
+}
+
+
+function minBy<T>(items: T[], key: (item: T) => number): T | undefined {
+    let min: T | undefined
+    for (let item of items) {
+        if (min === undefined || key(item) < key(min)) {
+            min = item
+        }
+    }
+    return min
+}
+
+
+function minOf(states: SourceState[], get: (s: SourceState) => number | undefined): number | undefined {
+    let min: number | undefined
+    for (let s of states) {
+        let value = get(s)
+        if (value == null) return
+        min = min == null ? value : Math.min(min, value)
+    }
+    return min
+}
@@ -0,0 +1,74 @@
+#!/usr/bin/env node
+import {createLogger} from '@subsquid/logger'
+import {ClickhouseClient} from './clickhouse/client'
+import {createMigration, loadMigrations, Migrator} from './clickhouse/migrations'
+import {runProgram} from './util/misc'
+
+
+const log = createLogger('core:migrations')
+
+
+const USAGE = `Usage: core-migrations <command> [args]
+
+Commands:
+    create <name>   create empty migration files
+    apply           apply all pending migrations
+    revert          revert the last applied migration
+    status          list migrations and their status
+
+Environment:
+    MIGRATIONS_DIR          directory with migration files (default: ./migrations)
+    CLICKHOUSE_URL          URL of the ClickHouse HTTP API (default: http://localhost:8123)
+    CLICKHOUSE_DATABASE     target database (required by all commands except create)
+`
+
+
+runProgram(async () => {
+    let [command, ...args] = process.argv.slice(2)
+    let dir = process.env.MIGRATIONS_DIR || 'migrations'
+
+    switch(command) {
+        case 'create': {
+            if (args.length != 1) return usageError()
+            let migration = await createMigration(dir, args[0])
+            log.info(`created ${migration.up}`)
+            log.info(`created ${migration.down}`)
+            return
+        }
+        case 'apply': {
+            let applied = await getMigrator(dir).apply()
+            log.info(applied.length ? `applied ${applied.length} migration(s)` : 'database is up to date')
+            return
+        }
+        case 'revert': {
+            let reverted = await getMigrator(dir).revert()
+            log.info(reverted ? `reverted ${reverted.version}_${reverted.name}` : 'there are no applied migrations')
+            return
+        }
+        case 'status': {
+            let applied = new Set((await getMigrator(dir).getApplied()).map(m => m.version))
+            for (let m of await loadMigrations(dir)) {
+                console.log(`${applied.has(m.version) ? 'applied' : 'pending'}\t${m.version}_${m.name}`)
+            }
+            return
+        }
+        default:
+            return usageError()
+    }
+}, err => {
+    log.fatal(err)
+})
+
+
+function getMigrator(dir: string): Migrator {
+    let database = process.env.CLICKHOUSE_DATABASE
+    if (!database) throw new Error('CLICKHOUSE_DATABASE env variable is not set')
+    let clickhouse = new ClickhouseClient(process.env.CLICKHOUSE_URL || 'http://localhost:8123')
+    return new Migrator(clickhouse, database, dir)
+}
+
+
+function usageError(): void {
+    process.stderr.write(USAGE)
+    process.exit(1)
+}
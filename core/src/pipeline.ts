@@ -0,0 +1,88 @@
+import * as path from 'node:path'
+import type {DataSource, MapContext} from './clickhouse-processor'
+import type {DatabaseSchema} from './clickhouse/schema'
+import type {InsertFormat, TableOptions} from './clickhouse/writer'
+import type {MapWorkersOptions} from './map-workers'
+import type {StateOptions} from './state'
+
+
+/**
+ * Connection settings passed to the pipeline
+ */
+export interface PipelineSettings {
+    /**
+     * URL of the portal dataset
+     */
+    portal?: string
+}
+
+
+/**
+ * Data processing pipeline, that can be run by the `core` CLI.
+ *
+ * Pipeline module exports it either as the default export or as a set of named exports.
+ */
+export interface Pipeline<B = any, R = any> {
+    /**
+     * Data source or a function creating it from connection settings
+     */
+    source: DataSource<B> | ((settings: PipelineSettings) => DataSource<B>)
+    /**
+     * See `ProcessorArgs.map`
+     */
+    map?: (block: B, ctx: MapContext) => R | Promise<R>
+    /**
+     * See `ProcessorArgs.mapBatch`
+     */
+    mapBatch?: (blocks: B[], ctx: MapContext) => R[] | Promise<R[]>
+    /**
+     * See `ProcessorArgs.mapWorkers`
+     */
+    mapWorkers?: MapWorkersOptions
+    /**
+     * See `ProcessorArgs.state`
+     */
+    state?: StateOptions
+    /**
+     * See `ProcessorArgs.clickhouseSchema`
+     */
+    schema?: DatabaseSchema<any>
+    /**
+     * See `ProcessorArgs.clickhouseMigrations`.
+     *
+     * Relative paths are resolved against the pipeline module directory.
+     */
+    migrations?: string
+    /**
+     * See `ProcessorArgs.clickhouseTables`
+     */
+    tables?: Record<string, TableOptions>
+    /**
+     * See `ProcessorArgs.clickhouseInsertFormat`
+     */
+    insertFormat?: InsertFormat
+}
+
+
+export function definePipeline<B, R>(pipeline: Pipeline<B, R>): Pipeline<B, R> {
+    return pipeline
+}
+
+
+export function loadPipeline(module: string): Pipeline {
+    let file = path.resolve(module)
+    let mod = require(file)
+    let pipeline: Pipeline = mod.default ?? mod
+    if (pipeline.source == null) {
+        throw new Error(`module ${file} does not export pipeline's source`)
+    }
+    if (pipeline.migrations) {
+        pipeline = {...pipeline, migrations: path.resolve(path.dirname(file), pipeline.migrations)}
+    }
+    return pipeline
+}
+
+
+export function createPipelineSource<B>(pipeline: Pipeline<B>, settings: PipelineSettings): DataSource<B> {
+    return typeof pipeline.source == 'function' ? pipeline.source(settings) : pipeline.source
+}
@@ -1,6 +1,7 @@
 import {asRetryAfterPause, HttpClient, HttpError, HttpResponse} from '@subsquid/http-client'
 import {createLogger} from '@subsquid/logger'
 import {array, assertValidity, NAT, object, STRING} from '@subsquid/util-internal-validation'
+import {addAbortSignal} from 'node:stream'
 import type {PortalApi, PortalStreamHeaders, PortalStreamResponse} from './core/portal-api'
 
 
@@ -17,14 +18,29 @@ export class PortalClient implements PortalApi {
     }
 
     stream(query: object, abort: AbortSignal): Promise<PortalStreamResponse> {
+        // The response body emits an error on abort even when nobody reads it,
+        // which is reported as an uncaught exception.
+        // To always have a chance to attach an error listener to a received response,
+        // the abort is propagated to the request on the next tick.
+        let requestAbort = new AbortController()
+        let onAbort = () => setImmediate(() => requestAbort.abort(abort.reason))
+        if (abort.aborted) {
+            onAbort()
+        } else {
+            abort.addEventListener('abort', onAbort, {once: true})
+        }
         return this.http.request('POST', '/', {
             json: query,
             stream: true,
-            abort
+            abort: requestAbort.signal
         }).then(
             res => {
+                // consumers of 200 responses still get errors through the async iteration
+                res.body.on('error', () => {})
                 switch(res.status) {
                     case 200:
+                        // abort signal is no longer attached to the request once we got response headers
+                        addAbortSignal(abort, res.body)
                         return {
                             status: 200,
                             data: res.body,
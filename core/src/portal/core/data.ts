@@ -11,4 +11,4 @@ export type GetStateDiff<B> = B extends {stateDiffs?: (infer T)[]} ? T : never
 export type GetInstruction<B> = B extends {instructions?: (infer T)[]} ? T : never
 export type GetBalance<B> = B extends {balances?: (infer T)[]} ? T : never
 export type GetTokenBalance<B> = B extends {tokenBalances?: (infer T)[]} ? T : never
-export type GetReward<B> = B extends {reward?: (infer T)[]} ? T : never
+export type GetReward<B> = B extends {rewards?: (infer T)[]} ? T : never
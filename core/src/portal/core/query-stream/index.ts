@@ -4,10 +4,11 @@ import type {PortalApi} from '../portal-api'
 import type {AnyQuery, GetQueryBlock} from '../query'
 import {getEvmBlockSchema, patchEvmQueryFields} from '../query/evm/schema'
 import {getSolanaBlockSchema, patchSolanaQueryFields} from '../query/solana/schema'
-import {createQueryStream as createStream, DataBatch, StreamOptions} from './internal'
+import {createQueryStream as createStream, DataBatch, StreamOptions, StreamStallError} from './internal'
 
 
 export type {StreamOptions, DataBatch}
+export {StreamStallError}
 
 
 export function createQueryStream<Q extends AnyQuery>(
@@ -22,25 +23,38 @@ export function createQueryStream(
     options?: StreamOptions
 ): AsyncIterable<DataBatch>
 {
-    let schema: Validator<BlockBase>
+    return createStream(
+        api,
+        patchQueryFields(query),
+        getBlockSchema(query),
+        options
+    )
+}
+
+
+/**
+ * Get the validator of portal blocks returned for the given query.
+ */
+export function getBlockSchema<Q extends AnyQuery>(query: Q): Validator<GetQueryBlock<Q>>
+export function getBlockSchema(query: AnyQuery): Validator<BlockBase> {
     switch(query.type) {
         case 'evm':
-            schema = getEvmBlockSchema(query.fields ?? {})
-            query = {...query}
-            query.fields = patchEvmQueryFields(query.fields ?? {})
-            break
+            return getEvmBlockSchema(query.fields ?? {})
         case 'solana':
-            schema = getSolanaBlockSchema(query.fields)
-            query = {...query}
-            query.fields = patchSolanaQueryFields(query.fields ?? {})
-            break
+            return getSolanaBlockSchema(query.fields)
+        default:
+            throw new Error(`unsupported query type - ${(query as any).type}`)
+    }
+}
+
+
+function patchQueryFields(query: AnyQuery): AnyQuery {
+    switch(query.type) {
+        case 'evm':
+            return {...query, fields: patchEvmQueryFields(query.fields ?? {})}
+        case 'solana':
+            return {...query, fields: patchSolanaQueryFields(query.fields ?? {})}
         default:
             throw new Error(`unsupported query type - ${(query as any).type}`)
     }
-    return createStream(
-        api,
-        query,
-        schema,
-        options
-    )
 }
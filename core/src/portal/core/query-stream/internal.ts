@@ -1,3 +1,4 @@
+import {createLogger} from '@subsquid/logger'
 import {
     DataValidationError,
     GetSrcType,
@@ -18,6 +19,9 @@ import type {PortalApi, PortalStreamHeaders} from '../portal-api'
 import {QueryBase} from '../query'
 
 
+const log = createLogger('core:portal:stream')
+
+
 export interface DataBatch<B extends BlockBase = BlockBase> extends PortalStreamHeaders {
     blocks: B[]
     byteSize: number
@@ -38,7 +42,23 @@ export interface StreamOptions {
     lowItemWaterMark?: number
     queryStreamPauseThreshold?: number
     yieldPauseThreshold?: number
+    /**
+     * Maximum time to wait for new data from the portal.
+     *
+     * When exceeded, the current request is aborted and retried.
+     *
+     * Default: 60 secs, `0` disables the check
+     */
+    streamIdleTimeout?: number
     retryAttempts?: number
+    /**
+     * Maximum number of consecutive retries of stalled requests.
+     *
+     * Stalls are counted separately from other errors covered by `retryAttempts`.
+     *
+     * Default: `retryAttempts`, but at least 5
+     */
+    stallRetryAttempts?: number
     retrySchedule?: number[]
     onRetry?: (err: unknown, attempt: number, pause: number) => void
     onBatch?: (batch: DataBatch) => void
@@ -68,10 +88,14 @@ async function ingest(
     query = {...query}
 
     let maxRetryAttempts = options.retryAttempts ?? 0
+    let maxStallRetryAttempts = options.stallRetryAttempts ?? Math.max(maxRetryAttempts, 5)
     let retrySchedule = options.retrySchedule ?? [10, 200, 500, 1000, 2000, 5000, 10000]
+    let idleTimeout = options.streamIdleTimeout ?? 60_000
     let onRetry = options.onRetry
     let retryAttempt = 0
+    let stallAttempt = 0
     let retryPause = 0
+    let streamId = 0
 
     while (processor.isRunning()) {
         if (retryPause) {
@@ -87,14 +111,20 @@ async function ingest(
 
         query.fromBlock = processor.getLastBlockNumber() + 1
         query.parentBlockHash = processor.getLastBlockHash()
+        streamId += 1
+
+        let watchdog = new StreamWatchdog(streamId, query.fromBlock, idleTimeout)
         try {
-            let res = await api.stream(query, processor.abortSignal)
+            watchdog.start()
+            let res = await api.stream(query, AbortSignal.any([processor.abortSignal, watchdog.signal]))
             switch(res.status) {
                 case 200:
                     processor.startStream(res)
                     for await (let data of res.data) {
+                        watchdog.stop()
                         await processor.drain()
                         processor.writeStreamData(data)
+                        watchdog.start()
                     }
                     processor.endStream()
                     break
@@ -106,21 +136,72 @@ async function ingest(
                     break
             }
             retryAttempt = 0
+            stallAttempt = 0
             retryPause = 0
-        } catch(err: any) {
-            if (retryAttempt >= maxRetryAttempts) {
-                throw err
-            }
-            if (api.isRetriableError?.(err)) {
-                retryPause = api.getRetryPause?.(err) ?? retrySchedule[Math.max(retryAttempt, retrySchedule.length - 1)]
-                retryAttempt += 1
-                onRetry?.(err, retryAttempt, retryPause)
-                processor.resetStream()
+        } catch(e: any) {
+            let err = watchdog.error ?? e
+            let attempt: number
+            if (err instanceof StreamStallError) {
+                if (stallAttempt >= maxStallRetryAttempts) {
+                    throw err
+                }
+                attempt = stallAttempt += 1
+            } else if (retryAttempt < maxRetryAttempts && api.isRetriableError?.(err)) {
+                attempt = retryAttempt += 1
             } else {
                 throw err
             }
+            retryPause = api.getRetryPause?.(err) ?? retrySchedule[Math.min(attempt - 1, retrySchedule.length - 1)]
+            onRetry?.(err, attempt, retryPause)
+            processor.resetStream()
+        } finally {
+            watchdog.stop()
+        }
+    }
+}
+
+
+export class StreamStallError extends Error {
+    constructor(
+        public streamId: number,
+        public fromBlock: number,
+        public idleTimeout: number
+    ) {
+        super(`portal stream ${streamId} (from block ${fromBlock}) stalled: no data was received for ${idleTimeout} ms`)
+    }
+
+    get name(): string {
+        return 'StreamStallError'
+    }
+}
+
+
+class StreamWatchdog {
+    private abort = new AbortController()
+    private timer?: Timer
+    public error?: StreamStallError
+
+    constructor(streamId: number, fromBlock: number, idleTimeout: number) {
+        if (idleTimeout) {
+            this.timer = new Timer(idleTimeout, () => {
+                log.warn({streamId, fromBlock, idleTimeout}, 'portal stream stalled, aborting')
+                this.error = new StreamStallError(streamId, fromBlock, idleTimeout)
+                this.abort.abort(this.error)
+            })
         }
     }
+
+    get signal(): AbortSignal {
+        return this.abort.signal
+    }
+
+    start(): void {
+        this.timer?.start()
+    }
+
+    stop(): void {
+        this.timer?.stop()
+    }
 }
 
 
@@ -198,7 +279,7 @@ class Processor<B extends BlockBase> {
     }
 
     private onExternalAbort = (_e: unknown) => {
-        this.finish(new Error('stream was aborted'))
+        this.finish(this.externalAbort!.reason)
     }
 
     private acceptNewLine(line: string): void {
@@ -222,6 +303,7 @@ class Processor<B extends BlockBase> {
         this.byteSize += line.length
         this.itemSize += getItemSize(block)
         this.lastBlockNumber = block.header.number
+        this.lastBlockHash = block.header.hash
         this.batchEndStream = this.currentStream
         if (this.blocks.length == 1) {
             this.batchStartStream = this.currentStream
@@ -473,8 +555,8 @@ class Processor<B extends BlockBase> {
                 if (this.externalAbort?.aborted) {
                     // We prevented validly ingested blocks from being yielded
                     // Hence, no matter what the state of this.error is,
-                    // 'stream was aborted' is logically the most right thing to throw
-                    throw new Error('stream was aborted')
+                    // the abort reason is logically the most right thing to throw
+                    throw this.externalAbort.reason
                 } else {
                     yield this.takeBatch()
                 }
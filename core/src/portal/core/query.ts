@@ -1,3 +1,4 @@
+import type {QueryItems} from './query/common/query'
 import type {EvmBlock} from './query/evm/fields'
 import type {EvmQuery} from './query/evm/query'
 import type {SolanaBlock} from './query/solana/fields'
@@ -11,10 +12,19 @@ export type * from './query/solana/query'
 
 export type GetQueryBlock<Q> =
     Q extends EvmQuery<infer F>
-        ? EvmBlock<F>
+        ? SelectItems<EvmBlock<F>, Q>
         : Q extends SolanaQuery<infer F>
-            ? SolanaBlock<F>
+            ? SelectItems<SolanaBlock<F>, Q>
             : never
 
 
+/**
+ * Leave only item lists, that the query can return (see `QueryItems`)
+ */
+type SelectItems<B, Q> =
+    Q extends QueryItems<infer I>
+        ? string extends I ? B : Pick<B, Extract<keyof B, 'header' | I>>
+        : B
+
+
 export type AnyQuery = EvmQuery | SolanaQuery
@@ -4,3 +4,13 @@ export interface QueryBase {
     parentBlockHash?: string
     includeAllBlocks?: boolean
 }
+
+
+/**
+ * Phantom marker of block item kinds, that a query can return.
+ *
+ * It is set by query builders and never present at runtime.
+ */
+export interface QueryItems<I extends string> {
+    readonly __items?: I
+}
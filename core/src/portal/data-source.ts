@@ -1,20 +1,46 @@
 import {createLogger} from '@subsquid/logger'
 import type {BlockRef} from '../common'
+import {registry} from '../prometheus'
 import {last} from '../util/misc'
 import {PortalClient} from './client'
+import type {PortalApi} from './core/portal-api'
 import {createQueryStream, DataBatch, StreamOptions} from './core/query-stream'
 import type {AnyQuery, GetQueryBlock} from './query'
+import {RecordingPortalApi} from './recorder'
 
 
 export {DataBatch, StreamOptions}
 
 
+const ttfbHistogram = registry.histogram('sqd_portal_ttfb_seconds', 'Time to the first byte of portal responses')
+const bytesCounter = registry.counter('sqd_portal_bytes_total', 'Bytes received from the portal')
+const bytesSpeedGauge = registry.gauge('sqd_portal_bytes_per_second', 'Download rate of the last portal response')
+const retryCounter = registry.counter('sqd_portal_retries_total', 'Number of retried portal requests')
+
+
+export interface PortalDataSourceOptions extends StreamOptions {
+    /**
+     * Append raw NDJSON data received from the portal to the given file.
+     *
+     * The file is compressed when its name ends with `.gz` or `.zst`.
+     * Recorded data can be replayed with `FileDataSource`.
+     *
+     * Note, that blocks rolled back due to chain forks are not removed from the file,
+     * hence, it is recommended to record only finalized streams.
+     */
+    recordFile?: string
+}
+
+
 export class PortalDataSource<Q extends AnyQuery> {
-    private client: PortalClient
+    private client: PortalApi
     private options: StreamOptions
 
-    constructor(url: string, private query: Q, options?: StreamOptions) {
+    constructor(url: string, private query: Q, {recordFile, ...options}: PortalDataSourceOptions = {}) {
         this.client = new PortalClient(url)
+        if (recordFile) {
+            this.client = new RecordingPortalApi(this.client, recordFile)
+        }
 
         let log = createLogger('portal')
         let batchLog = log.child('batch')
@@ -22,9 +48,14 @@ export class PortalDataSource<Q extends AnyQuery> {
         this.options = {
             retryAttempts: Number.MAX_SAFE_INTEGER,
             onRetry(err, _attempt, _pause) {
+                retryCounter.inc()
                 log.warn('' + err)
             },
             onBatch(batch) {
+                ttfbHistogram.observe((batch.firstByteTime - batch.startTime) / 1000)
+                bytesCounter.inc(batch.byteSize)
+                bytesSpeedGauge.set(Math.round(1000 * batch.byteSize / Math.max(batch.endTime - batch.startTime, 1)))
+
                 if (batchLog.isDebug()) {
                     let {blocks, ...props} = batch
                     let ttfb = batch.firstByteTime - batch.startTime
@@ -50,7 +81,7 @@ export class PortalDataSource<Q extends AnyQuery> {
         }
     }
 
-    createDataStream(afterBlock?: BlockRef): AsyncIterable<DataBatch<GetQueryBlock<Q>>> {
+    createDataStream(afterBlock?: BlockRef, abortSignal?: AbortSignal): AsyncIterable<DataBatch<GetQueryBlock<Q>>> {
         let query = {...this.query}
         if (afterBlock && afterBlock.number >= query.fromBlock) {
             if (query.toBlock && afterBlock.number >= query.toBlock) {
@@ -59,6 +90,30 @@ export class PortalDataSource<Q extends AnyQuery> {
             query.fromBlock = afterBlock.number + 1
             query.parentBlockHash = afterBlock.hash
         }
-        return createQueryStream(this.client, query, this.options)
+        return this.stream(query, abortSignal)
+    }
+
+    createRangeStream(fromBlock: number, toBlock: number, abortSignal?: AbortSignal): AsyncIterable<DataBatch<GetQueryBlock<Q>>> {
+        let query = {...this.query}
+        query.fromBlock = Math.max(query.fromBlock, fromBlock)
+        query.toBlock = Math.min(query.toBlock ?? Infinity, toBlock)
+        delete query.parentBlockHash
+        if (query.fromBlock > query.toBlock) {
+            return (async function* emptyStream() {})()
+        }
+        return this.stream(query, abortSignal)
+    }
+
+    private stream(query: Q, abortSignal?: AbortSignal): AsyncIterable<DataBatch<GetQueryBlock<Q>>> {
+        let options = this.options
+        if (abortSignal) {
+            options = {
+                ...options,
+                abortSignal: options.abortSignal
+                    ? AbortSignal.any([options.abortSignal, abortSignal])
+                    : abortSignal
+            }
+        }
+        return createQueryStream(this.client, query, options)
     }
 }
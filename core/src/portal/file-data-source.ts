@@ -0,0 +1,179 @@
+import {DataValidationError, ValidationFailure, Validator} from '@subsquid/util-internal-validation'
+import {createReadStream} from 'node:fs'
+import {pipeline, Readable} from 'node:stream'
+import {BlockRef, ForkException} from '../common'
+import {createDecompressStream, getFileCompression} from '../util/compression'
+import {LineSplitter} from '../util/line-splitter'
+import {last} from '../util/misc'
+import {getBlockSchema} from './core/query-stream'
+import type {AnyQuery, GetQueryBlock} from './query'
+
+
+export interface FileDataBatch<B> {
+    blocks: B[]
+    headNumber: number
+}
+
+
+export interface FileDataSourceOptions {
+    /**
+     * Number of blocks per batch.
+     *
+     * Default: 1000
+     */
+    batchSize?: number
+}
+
+
+/**
+ * Data source, that replays portal blocks stored in newline-delimited JSON files.
+ *
+ * Files ending with `.gz` and `.zst` are decompressed on the fly.
+ *
+ * Blocks are validated exactly as in `PortalDataSource`,
+ * hence, the data must be produced by a portal query with the same field selection.
+ * `PortalDataSourceOptions.recordFile` can be used to capture such files.
+ *
+ * Blocks outside of `query.fromBlock` - `query.toBlock` range are skipped,
+ * but no other item filtering is performed.
+ */
+export class FileDataSource<Q extends AnyQuery> {
+    private files: string[]
+    private schema: Validator<GetQueryBlock<Q>>
+    private batchSize: number
+
+    constructor(files: string | string[], private query: Q, options: FileDataSourceOptions = {}) {
+        this.files = Array.isArray(files) ? files : [files]
+        this.schema = getBlockSchema(query)
+        this.batchSize = options.batchSize ?? 1000
+    }
+
+    createDataStream(afterBlock?: BlockRef, abortSignal?: AbortSignal): AsyncIterable<FileDataBatch<GetQueryBlock<Q>>> {
+        let fromBlock = this.query.fromBlock
+        let parentBlockHash = this.query.parentBlockHash
+        if (afterBlock && afterBlock.number >= fromBlock) {
+            if (this.query.toBlock && afterBlock.number >= this.query.toBlock) {
+                return (async function* emptyStream() {})()
+            }
+            fromBlock = afterBlock.number + 1
+            parentBlockHash = afterBlock.hash
+        }
+        return this.stream(fromBlock, this.query.toBlock, parentBlockHash, abortSignal)
+    }
+
+    createRangeStream(fromBlock: number, toBlock: number, abortSignal?: AbortSignal): AsyncIterable<FileDataBatch<GetQueryBlock<Q>>> {
+        return this.stream(
+            Math.max(this.query.fromBlock, fromBlock),
+            Math.min(this.query.toBlock ?? Infinity, toBlock),
+            undefined,
+            abortSignal
+        )
+    }
+
+    private async *stream(
+        fromBlock: number,
+        toBlock: number | undefined,
+        parentBlockHash: string | undefined,
+        abortSignal?: AbortSignal
+    ): AsyncIterable<FileDataBatch<GetQueryBlock<Q>>>
+    {
+        let prevBlock: BlockRef | undefined
+        let lastBlockNumber = -1
+        let ready: GetQueryBlock<Q>[] | undefined
+        let batch: GetQueryBlock<Q>[] = []
+
+        files: for (let file of this.files) {
+            for await (let line of readLines(file)) {
+                if (abortSignal?.aborted) throw abortSignal.reason
+
+                let block = this.parseBlock(file, line)
+                let header = block.header
+
+                if (header.number < fromBlock) {
+                    prevBlock = {number: header.number, hash: header.hash}
+                    continue
+                }
+
+                if (toBlock != null && header.number > toBlock) break files
+
+                if (header.number <= lastBlockNumber) {
+                    throw new Error(
+                        `${file}: block ${header.number} does not follow ${lastBlockNumber}, ` +
+                        `blocks must be stored in ascending order`
+                    )
+                }
+
+                // like the portal, check the parent only when the requested block is present
+                if (header.number === fromBlock && parentBlockHash != null && header.parentHash !== parentBlockHash) {
+                    if (prevBlock) {
+                        throw new ForkException(fromBlock, parentBlockHash, [prevBlock])
+                    } else {
+                        throw new Error(
+                            `expected block ${fromBlock} to have parent hash ${parentBlockHash}, ` +
+                            `but block ${header.number}#${header.hash} from ${file} has parent hash ${header.parentHash}`
+                        )
+                    }
+                }
+
+                lastBlockNumber = header.number
+                batch.push(block)
+
+                if (batch.length >= this.batchSize) {
+                    if (ready) {
+                        yield {blocks: ready, headNumber: last(batch).header.number}
+                    }
+                    ready = batch
+                    batch = []
+                }
+            }
+        }
+
+        if (ready) {
+            yield {blocks: ready, headNumber: last(batch.length ? batch : ready).header.number}
+        }
+
+        if (batch.length > 0) {
+            yield {blocks: batch, headNumber: last(batch).header.number}
+        }
+    }
+
+    private parseBlock(file: string, line: string): GetQueryBlock<Q> {
+        let rawBlock: unknown
+        try {
+            rawBlock = JSON.parse(line)
+        } catch(err: any) {
+            throw new Error(`${file}: invalid JSON line: ${err.message}`)
+        }
+        let block = this.schema.cast(rawBlock)
+        if (block instanceof ValidationFailure) {
+            throw new DataValidationError(`${file}: ${block.toString()}`)
+        }
+        return block
+    }
+}
+
+
+async function* readLines(file: string): AsyncIterable<string> {
+    let input: Readable = createReadStream(file)
+
+    let compression = getFileCompression(file)
+    if (compression) {
+        input = pipeline(input, createDecompressStream(compression), () => {})
+    }
+
+    let lines: string[] = []
+    let splitter = new LineSplitter(line => lines.push(line))
+
+    try {
+        for await (let chunk of input) {
+            splitter.push(chunk)
+            let complete = lines
+            lines = []
+            yield* complete
+        }
+        splitter.end()
+        yield* lines
+    } finally {
+        input.destroy()
+    }
+}
@@ -0,0 +1,410 @@
+import assert from 'node:assert'
+import {createHash} from 'node:crypto'
+import * as http from 'node:http'
+import type {AddressInfo} from 'node:net'
+import type {BlockRef} from '../common'
+import {wait} from '../util/async'
+import {last} from '../util/misc'
+import type {PortalApi, PortalStreamHeaders, PortalStreamResponse} from './core/portal-api'
+import type {QueryBase} from './query'
+
+
+export interface MockBlockHeader {
+    number: number
+    hash: string
+    parentHash: string
+    parentNumber?: number
+    timestamp: number
+}
+
+
+export interface MockBlock {
+    header: MockBlockHeader
+    [item: string]: unknown
+}
+
+
+export interface MockChainOptions {
+    /**
+     * Chain type, determines the format of generated block hashes.
+     *
+     * Default: `evm`
+     */
+    type?: 'evm' | 'solana'
+    /**
+     * Number of the first block of the chain.
+     *
+     * Default: 1
+     */
+    firstBlock?: number
+    /**
+     * Block items generator.
+     *
+     * Returned properties are merged into generated blocks.
+     */
+    items?: (header: MockBlockHeader) => Record<string, unknown>
+}
+
+
+/**
+ * Scripted chain, that backs {@link MockPortal}.
+ */
+export class MockChain {
+    private blocks: MockBlock[] = []
+    private finalizedHead = -1
+    private forkId = 0
+    private type: 'evm' | 'solana'
+    private firstBlock: number
+    private items?: (header: MockBlockHeader) => Record<string, unknown>
+
+    constructor(options: MockChainOptions = {}) {
+        this.type = options.type ?? 'evm'
+        this.firstBlock = options.firstBlock ?? 1
+        this.items = options.items
+    }
+
+    get head(): MockBlock | undefined {
+        return this.blocks.length ? last(this.blocks) : undefined
+    }
+
+    get finalizedHeadNumber(): number | undefined {
+        return this.finalizedHead < 0 ? undefined : this.finalizedHead
+    }
+
+    getBlock(number: number): MockBlock | undefined {
+        return this.blocks[number - this.firstBlock]
+    }
+
+    /**
+     * Append `count` generated blocks to the chain.
+     */
+    addBlocks(count: number = 1): this {
+        for (let i = 0; i < count; i++) {
+            let parent = this.head
+            let number = parent ? parent.header.number + 1 : this.firstBlock
+            let header: MockBlockHeader = {
+                number,
+                hash: this.createHash(number),
+                parentHash: parent?.header.hash ?? this.createHash(number - 1),
+                timestamp: number
+            }
+            if (this.type == 'solana') {
+                header.parentNumber = number - 1
+            }
+            this.push({...this.items?.(header), header})
+        }
+        return this
+    }
+
+    /**
+     * Append a custom block to the chain.
+     *
+     * The block must follow the current head.
+     */
+    push(block: MockBlock): this {
+        let parent = this.head
+        if (parent) {
+            assert(block.header.number > parent.header.number, 'block number must be greater than the head number')
+            assert(block.header.parentHash === parent.header.hash, 'block must reference the current head')
+        }
+        this.blocks.push(block)
+        return this
+    }
+
+    /**
+     * Replace the top `depth` blocks with `newLength` (default: `depth`) freshly generated blocks.
+     */
+    reorg(depth: number, newLength: number = depth): this {
+        assert(depth <= this.blocks.length, 'reorg is deeper than the chain')
+        let newHead = this.blocks.length - depth - 1 + this.firstBlock
+        assert(newHead >= this.finalizedHead, 'can not roll back finalized blocks')
+        this.blocks.length -= depth
+        this.forkId += 1
+        return this.addBlocks(newLength)
+    }
+
+    /**
+     * Mark all blocks up to `number` (default: the current head) as finalized.
+     */
+    finalize(number?: number): this {
+        number = number ?? this.head?.header.number ?? -1
+        assert(number <= (this.head?.header.number ?? -1), 'can not finalize blocks above the head')
+        this.finalizedHead = Math.max(this.finalizedHead, number)
+        return this
+    }
+
+    private createHash(number: number): string {
+        let hex = createHash('sha256').update(`${number}:${this.forkId}`).digest('hex')
+        if (this.type == 'solana') {
+            // map hex digits to the base58 alphabet
+            return hex.replace(/[0-9a-f]/g, d => '123456789ABCDEFG'[parseInt(d, 16)])
+        } else {
+            return '0x' + hex
+        }
+    }
+}
+
+
+export interface MockPortalOptions {
+    /**
+     * Maximum number of blocks to return in a single response.
+     *
+     * Default: 100
+     */
+    maxBlocksPerResponse?: number
+    /**
+     * Number of previous blocks to return in 409 responses.
+     *
+     * Default: 10
+     */
+    previousBlocks?: number
+    /**
+     * Delay of 204 responses, emulating long polling at the chain head.
+     *
+     * Default: 50 ms
+     */
+    headResponseDelay?: number
+}
+
+
+export interface MockFailure {
+    /**
+     * Number of blocks to stream before the failure.
+     *
+     * When not set, the request fails before any response is returned.
+     */
+    afterBlocks?: number
+    error?: Error
+}
+
+
+/**
+ * In-process implementation of the portal streaming protocol backed by {@link MockChain}.
+ *
+ * Blocks are returned as-is, no item filtering is performed.
+ */
+export class MockPortal implements PortalApi {
+    private failures: MockFailure[] = []
+    private maxBlocksPerResponse: number
+    private previousBlocks: number
+    private headResponseDelay: number
+    public requests: QueryBase[] = []
+
+    constructor(public readonly chain: MockChain = new MockChain(), options: MockPortalOptions = {}) {
+        this.maxBlocksPerResponse = options.maxBlocksPerResponse ?? 100
+        this.previousBlocks = options.previousBlocks ?? 10
+        this.headResponseDelay = options.headResponseDelay ?? 50
+    }
+
+    /**
+     * Make the next request fail with a retriable error.
+     */
+    fail(failure: MockFailure = {}): this {
+        this.failures.push(failure)
+        return this
+    }
+
+    async stream(query: object, abortSignal: AbortSignal): Promise<PortalStreamResponse> {
+        let q = query as QueryBase
+        this.requests.push(q)
+
+        if (abortSignal.aborted) throw abortSignal.reason
+
+        let failure = this.failures.shift()
+        if (failure && failure.afterBlocks == null) {
+            throw failure.error ?? new MockPortalError('injected failure')
+        }
+
+        let headers = this.getHeaders()
+
+        let head = this.chain.head?.header.number ?? -1
+
+        if (q.parentBlockHash != null && q.fromBlock > 0) {
+            let parent = this.chain.getBlock(q.fromBlock - 1)
+            // the parent is also missing, when a reorg made the chain shorter
+            let conflict = parent ? parent.header.hash !== q.parentBlockHash : q.fromBlock - 1 > head
+            if (conflict) {
+                return {
+                    status: 409,
+                    previousBlocks: this.getPreviousBlocks(Math.min(q.fromBlock, head + 1))
+                }
+            }
+        }
+        if (q.fromBlock > head) {
+            if (this.headResponseDelay) {
+                await wait(this.headResponseDelay, abortSignal)
+            }
+            return {status: 204, ...headers}
+        }
+
+        let toBlock = Math.min(
+            head,
+            q.toBlock ?? Infinity,
+            q.fromBlock + this.maxBlocksPerResponse - 1
+        )
+
+        let blocks: MockBlock[] = []
+        for (let i = q.fromBlock; i <= toBlock; i++) {
+            let block = this.chain.getBlock(i)
+            if (block) {
+                blocks.push(block)
+            }
+        }
+
+        return {
+            status: 200,
+            ...headers,
+            data: streamBlocks(blocks, abortSignal, failure)
+        }
+    }
+
+    isRetriableError(err: unknown): boolean {
+        return err instanceof MockPortalError
+    }
+
+    getRetryPause(_err: unknown): number | undefined {
+        return 0
+    }
+
+    private getHeaders(): PortalStreamHeaders {
+        let headers: PortalStreamHeaders = {}
+        let head = this.chain.head
+        if (head) {
+            headers.headNumber = head.header.number
+        }
+        let finalized = this.chain.finalizedHeadNumber
+        if (finalized != null) {
+            headers.finalizedHeadNumber = finalized
+            headers.finalizedHeadHash = this.chain.getBlock(finalized)?.header.hash
+        }
+        return headers
+    }
+
+    private getPreviousBlocks(fromBlock: number): BlockRef[] {
+        let prev: BlockRef[] = []
+        for (let i = Math.max(0, fromBlock - this.previousBlocks); i < fromBlock; i++) {
+            let block = this.chain.getBlock(i)
+            if (block) {
+                prev.push({number: block.header.number, hash: block.header.hash})
+            }
+        }
+        return prev
+    }
+}
+
+
+export class MockPortalError extends Error {
+    get name(): string {
+        return 'MockPortalError'
+    }
+}
+
+
+async function* streamBlocks(
+    blocks: MockBlock[],
+    abortSignal: AbortSignal,
+    failure: MockFailure | undefined
+): AsyncIterable<Uint8Array> {
+    let encoder = new TextEncoder()
+    for (let i = 0; i < blocks.length; i++) {
+        if (failure && failure.afterBlocks === i) {
+            throw failure.error ?? new MockPortalError('injected failure')
+        }
+        // give the consumer a chance to observe the response incrementally
+        await wait(0, abortSignal)
+        yield encoder.encode(JSON.stringify(blocks[i]) + '\n')
+    }
+}
+
+
+/**
+ * Serve {@link MockPortal} over HTTP, so that it can be used with `PortalClient` and `PortalDataSource`.
+ *
+ * Injected failures are reported as HTTP 503 or as a prematurely closed response.
+ */
+export async function serveMockPortal(portal: MockPortal, port: number = 0): Promise<MockPortalServer> {
+    let server = http.createServer((req, res) => {
+        handleRequest(portal, req, res).catch(err => {
+            if (res.headersSent) {
+                res.destroy(err)
+            } else {
+                res.writeHead(err instanceof MockPortalError ? 503 : 500, {'content-type': 'text/plain'})
+                res.end(String(err))
+            }
+        })
+    })
+
+    await new Promise<void>((resolve, reject) => {
+        server.once('error', reject)
+        server.listen(port, '127.0.0.1', () => {
+            server.off('error', reject)
+            resolve()
+        })
+    })
+
+    let address = server.address() as AddressInfo
+
+    return {
+        url: `http://127.0.0.1:${address.port}`,
+        close() {
+            return new Promise((resolve, reject) => {
+                server.closeAllConnections()
+                server.close(err => err ? reject(err) : resolve())
+            })
+        }
+    }
+}
+
+
+export interface MockPortalServer {
+    url: string
+    close(): Promise<void>
+}
+
+
+async function handleRequest(portal: MockPortal, req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    let body = ''
+    for await (let chunk of req) {
+        body += chunk
+    }
+
+    let abort = new AbortController()
+    res.on('close', () => abort.abort())
+
+    let result = await portal.stream(JSON.parse(body), abort.signal)
+    switch(result.status) {
+        case 200:
+            res.writeHead(200, {
+                'content-type': 'application/jsonl',
+                ...getHttpHeaders(result)
+            })
+            for await (let data of result.data) {
+                res.write(data)
+            }
+            res.end()
+            break
+        case 204:
+            res.writeHead(204, getHttpHeaders(result))
+            res.end()
+            break
+        case 409:
+            res.writeHead(409, {'content-type': 'application/json'})
+            res.end(JSON.stringify({previousBlocks: result.previousBlocks}))
+            break
+    }
+}
+
+
+function getHttpHeaders(headers: PortalStreamHeaders): Record<string, string> {
+    let result: Record<string, string> = {}
+    if (headers.headNumber != null) {
+        result['x-sqd-head-number'] = '' + headers.headNumber
+    }
+    if (headers.finalizedHeadNumber != null) {
+        result['x-sqd-finalized-head-number'] = '' + headers.finalizedHeadNumber
+    }
+    if (headers.finalizedHeadHash != null) {
+        result['x-sqd-finalized-head-hash'] = headers.finalizedHeadHash
+    }
+    return result
+}
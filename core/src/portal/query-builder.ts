@@ -0,0 +1,398 @@
+import type {EvmFieldSelection, SolanaFieldSelection} from './data'
+import type {
+    EvmLogRequest,
+    EvmQuery,
+    EvmStateDiffRequest,
+    EvmTraceRequest,
+    EvmTransactionRequest,
+    QueryItems,
+    SolanaBalanceRequest,
+    SolanaInstructionRequest,
+    SolanaLogRequest,
+    SolanaQuery,
+    SolanaRewardRequest,
+    SolanaTokenBalanceRequest,
+    SolanaTransactionRequest
+} from './query'
+
+
+type Simplify<T> = {
+    [K in keyof T]: T[K]
+} & {}
+
+
+/**
+ * Field selection containing fields selected in either of `A` and `B`
+ */
+export type MergeFields<A, B> = Simplify<{
+    [K in keyof A | keyof B]: Simplify<(K extends keyof A ? A[K] : {}) & (K extends keyof B ? B[K] : {})>
+}>
+
+
+type Flag<R, K extends string, Item extends string> = R extends {[P in K]: true} ? Item : never
+
+
+type HasSelectedFields<S> = S extends object ? (true extends S[keyof S] ? true : false) : false
+
+
+/**
+ * Compile time counterpart of `checkSelectedItems()`
+ *
+ * `Kinds` maps entities of the field selection to item lists of the block.
+ */
+type SelectionProblems<F, I extends string, Kinds extends Record<string, string>> = {
+    [K in keyof F & keyof Kinds & string]: HasSelectedFields<F[K]> extends true
+        ? Kinds[K] extends I
+            ? never
+            : `${K} fields are selected, but none of the requests returns ${Kinds[K]}, a relation flag might be missing`
+        : never
+}[keyof F & keyof Kinds & string]
+
+
+/**
+ * Type of `this` of `build()` method.
+ *
+ * It resolves to the builder itself for valid queries
+ * and to an incompatible type listing the problems otherwise.
+ */
+type Checked<B, P extends string> = [P] extends [never] ? B : {invalidQuery: P}
+
+
+export type EvmItemKind = 'transactions' | 'logs' | 'traces' | 'stateDiffs'
+
+
+type EvmEntityItems = {
+    transaction: 'transactions'
+    log: 'logs'
+    trace: 'traces'
+    stateDiff: 'stateDiffs'
+}
+
+
+type EvmStateDiffProblem<F> = F extends {stateDiff: infer S}
+    ? S extends {prev: true} | {next: true}
+        ? S extends {key: true} ? never : 'stateDiff.prev and stateDiff.next values are ambiguous without stateDiff.key field'
+        : never
+    : never
+
+
+export type EvmQueryProblems<F, I extends string> = SelectionProblems<F, I, EvmEntityItems> | EvmStateDiffProblem<F>
+
+
+export type EvmLogItems<R extends EvmLogRequest> = 'logs' |
+    Flag<R, 'transaction', 'transactions'> |
+    Flag<R, 'transactionTraces', 'traces'> |
+    Flag<R, 'transactionStateDiffs', 'stateDiffs'>
+
+
+export type EvmTransactionItems<R extends EvmTransactionRequest> = 'transactions' |
+    Flag<R, 'logs', 'logs'> |
+    Flag<R, 'traces', 'traces'> |
+    Flag<R, 'stateDiffs', 'stateDiffs'>
+
+
+export type EvmTraceItems<R extends EvmTraceRequest> = 'traces' |
+    Flag<R, 'transaction', 'transactions'> |
+    Flag<R, 'transactionLogs', 'logs'>
+
+
+export type EvmStateDiffItems<R extends EvmStateDiffRequest> = 'stateDiffs' |
+    Flag<R, 'transaction', 'transactions'>
+
+
+/**
+ * Builder of {@link EvmQuery}.
+ *
+ * Unlike a raw query, the block type of the built query (`GetQueryBlock`) contains only
+ * item lists, that can be returned by the added requests (including related items).
+ *
+ * `build()` checks the query for common mistakes,
+ * such as selection of fields of items, that are never requested.
+ * The checks are done at compile time, invalid queries can't be built without a type cast.
+ * The same checks are repeated at runtime.
+ *
+ * Builders are immutable, each method returns a new builder.
+ */
+export class EvmQueryBuilder<F extends EvmFieldSelection = {}, I extends string = never> {
+    constructor(private query: EvmQuery = {type: 'evm', fromBlock: 0}) {}
+
+    fromBlock(fromBlock: number): EvmQueryBuilder<F, I> {
+        return new EvmQueryBuilder({...this.query, fromBlock})
+    }
+
+    toBlock(toBlock: number): EvmQueryBuilder<F, I> {
+        return new EvmQueryBuilder({...this.query, toBlock})
+    }
+
+    includeAllBlocks(includeAllBlocks: boolean = true): EvmQueryBuilder<F, I> {
+        return new EvmQueryBuilder({...this.query, includeAllBlocks})
+    }
+
+    /**
+     * Add fields to the selection
+     */
+    fields<S extends EvmFieldSelection>(fields: S): EvmQueryBuilder<MergeFields<F, S>, I> {
+        return new EvmQueryBuilder({...this.query, fields: mergeFields(this.query.fields, fields)})
+    }
+
+    addLog<R extends EvmLogRequest>(request: R): EvmQueryBuilder<F, I | EvmLogItems<R>> {
+        return new EvmQueryBuilder(this.add('logs', request))
+    }
+
+    addTransaction<R extends EvmTransactionRequest>(request: R): EvmQueryBuilder<F, I | EvmTransactionItems<R>> {
+        return new EvmQueryBuilder(this.add('transactions', request))
+    }
+
+    addTrace<R extends EvmTraceRequest>(request: R): EvmQueryBuilder<F, I | EvmTraceItems<R>> {
+        return new EvmQueryBuilder(this.add('traces', request))
+    }
+
+    addStateDiff<R extends EvmStateDiffRequest>(request: R): EvmQueryBuilder<F, I | EvmStateDiffItems<R>> {
+        return new EvmQueryBuilder(this.add('stateDiffs', request))
+    }
+
+    private add<K extends EvmItemKind>(kind: K, request: NonNullable<EvmQuery[K]>[number]): EvmQuery {
+        return {...this.query, [kind]: [...(this.query[kind] ?? []), request]}
+    }
+
+    build(this: Checked<EvmQueryBuilder<F, I>, EvmQueryProblems<F, I>>): EvmQuery<F> & QueryItems<I> {
+        let query = (this as EvmQueryBuilder<F, I>).query
+        let items = new Set<string>()
+        for (let req of query.logs ?? []) {
+            items.add('logs')
+            if (req.transaction) items.add('transactions')
+            if (req.transactionTraces) items.add('traces')
+            if (req.transactionStateDiffs) items.add('stateDiffs')
+        }
+        for (let req of query.transactions ?? []) {
+            items.add('transactions')
+            if (req.logs) items.add('logs')
+            if (req.traces) items.add('traces')
+            if (req.stateDiffs) items.add('stateDiffs')
+        }
+        for (let req of query.traces ?? []) {
+            items.add('traces')
+            if (req.transaction) items.add('transactions')
+            if (req.transactionLogs) items.add('logs')
+        }
+        for (let req of query.stateDiffs ?? []) {
+            items.add('stateDiffs')
+            if (req.transaction) items.add('transactions')
+        }
+
+        let problems = checkSelectedItems(query.fields as AnySelection | undefined, items, {
+            transaction: 'transactions',
+            log: 'logs',
+            trace: 'traces',
+            stateDiff: 'stateDiffs'
+        })
+
+        let stateDiff = query.fields?.stateDiff
+        if (stateDiff && (stateDiff.prev || stateDiff.next) && !stateDiff.key) {
+            problems.push('stateDiff.prev and stateDiff.next values are ambiguous without stateDiff.key field')
+        }
+
+        if (problems.length > 0) throw new QueryBuilderError(problems)
+        return query as EvmQuery<F>
+    }
+}
+
+
+export type SolanaItemKind = 'transactions' | 'instructions' | 'logs' | 'balances' | 'tokenBalances' | 'rewards'
+
+
+type SolanaEntityItems = {
+    transaction: 'transactions'
+    instruction: 'instructions'
+    log: 'logs'
+    balance: 'balances'
+    tokenBalance: 'tokenBalances'
+    reward: 'rewards'
+}
+
+
+export type SolanaQueryProblems<F, I extends string> = SelectionProblems<F, I, SolanaEntityItems>
+
+
+export type SolanaTransactionItems<R extends SolanaTransactionRequest> = 'transactions' |
+    Flag<R, 'instructions', 'instructions'> |
+    Flag<R, 'logs', 'logs'>
+
+
+export type SolanaInstructionItems<R extends SolanaInstructionRequest> = 'instructions' |
+    Flag<R, 'transaction', 'transactions'> |
+    Flag<R, 'transactionBalances', 'balances'> |
+    Flag<R, 'transactionTokenBalances', 'tokenBalances'> |
+    Flag<R, 'logs', 'logs'>
+
+
+export type SolanaLogItems<R extends SolanaLogRequest> = 'logs' |
+    Flag<R, 'transaction', 'transactions'> |
+    Flag<R, 'instruction', 'instructions'>
+
+
+export type SolanaBalanceItems<R extends SolanaBalanceRequest> = 'balances' |
+    Flag<R, 'transaction', 'transactions'> |
+    Flag<R, 'transactionInstructions', 'instructions'>
+
+
+export type SolanaTokenBalanceItems<R extends SolanaTokenBalanceRequest> = 'tokenBalances' |
+    Flag<R, 'transaction', 'transactions'> |
+    Flag<R, 'transactionInstructions', 'instructions'>
+
+
+/**
+ * Builder of {@link SolanaQuery}.
+ *
+ * See {@link EvmQueryBuilder} for details.
+ */
+export class SolanaQueryBuilder<F extends SolanaFieldSelection = {}, I extends string = never> {
+    constructor(private query: SolanaQuery = {type: 'solana', fromBlock: 0, fields: {}}) {}
+
+    fromBlock(fromBlock: number): SolanaQueryBuilder<F, I> {
+        return new SolanaQueryBuilder({...this.query, fromBlock})
+    }
+
+    toBlock(toBlock: number): SolanaQueryBuilder<F, I> {
+        return new SolanaQueryBuilder({...this.query, toBlock})
+    }
+
+    includeAllBlocks(includeAllBlocks: boolean = true): SolanaQueryBuilder<F, I> {
+        return new SolanaQueryBuilder({...this.query, includeAllBlocks})
+    }
+
+    /**
+     * Add fields to the selection
+     */
+    fields<S extends SolanaFieldSelection>(fields: S): SolanaQueryBuilder<MergeFields<F, S>, I> {
+        return new SolanaQueryBuilder({...this.query, fields: mergeFields(this.query.fields, fields)})
+    }
+
+    addTransaction<R extends SolanaTransactionRequest>(request: R): SolanaQueryBuilder<F, I | SolanaTransactionItems<R>> {
+        return new SolanaQueryBuilder(this.add('transactions', request))
+    }
+
+    addInstruction<R extends SolanaInstructionRequest>(request: R): SolanaQueryBuilder<F, I | SolanaInstructionItems<R>> {
+        return new SolanaQueryBuilder(this.add('instructions', request))
+    }
+
+    addLog<R extends SolanaLogRequest>(request: R): SolanaQueryBuilder<F, I | SolanaLogItems<R>> {
+        return new SolanaQueryBuilder(this.add('logs', request))
+    }
+
+    addBalance<R extends SolanaBalanceRequest>(request: R): SolanaQueryBuilder<F, I | SolanaBalanceItems<R>> {
+        return new SolanaQueryBuilder(this.add('balances', request))
+    }
+
+    addTokenBalance<R extends SolanaTokenBalanceRequest>(request: R): SolanaQueryBuilder<F, I | SolanaTokenBalanceItems<R>> {
+        return new SolanaQueryBuilder(this.add('tokenBalances', request))
+    }
+
+    addReward<R extends SolanaRewardRequest>(request: R): SolanaQueryBuilder<F, I | 'rewards'> {
+        return new SolanaQueryBuilder(this.add('rewards', request))
+    }
+
+    private add<K extends SolanaItemKind>(kind: K, request: NonNullable<SolanaQuery[K]>[number]): SolanaQuery {
+        return {...this.query, [kind]: [...(this.query[kind] ?? []), request]}
+    }
+
+    build(this: Checked<SolanaQueryBuilder<F, I>, SolanaQueryProblems<F, I>>): SolanaQuery<F> & QueryItems<I> {
+        let query = (this as SolanaQueryBuilder<F, I>).query
+        let items = new Set<string>()
+        for (let req of query.transactions ?? []) {
+            items.add('transactions')
+            if (req.instructions) items.add('instructions')
+            if (req.logs) items.add('logs')
+        }
+        for (let req of query.instructions ?? []) {
+            items.add('instructions')
+            if (req.transaction) items.add('transactions')
+            if (req.transactionBalances) items.add('balances')
+            if (req.transactionTokenBalances) items.add('tokenBalances')
+            if (req.logs) items.add('logs')
+        }
+        for (let req of query.logs ?? []) {
+            items.add('logs')
+            if (req.transaction) items.add('transactions')
+            if (req.instruction) items.add('instructions')
+        }
+        for (let req of [...query.balances ?? [], ...query.tokenBalances ?? []]) {
+            if (req.transaction) items.add('transactions')
+            if (req.transactionInstructions) items.add('instructions')
+        }
+        if (query.balances?.length) items.add('balances')
+        if (query.tokenBalances?.length) items.add('tokenBalances')
+        if (query.rewards?.length) items.add('rewards')
+
+        let problems = checkSelectedItems(query.fields as AnySelection | undefined, items, {
+            transaction: 'transactions',
+            instruction: 'instructions',
+            log: 'logs',
+            balance: 'balances',
+            tokenBalance: 'tokenBalances',
+            reward: 'rewards'
+        })
+
+        if (problems.length > 0) throw new QueryBuilderError(problems)
+        return query as SolanaQuery<F>
+    }
+}
+
+
+export class QueryBuilderError extends Error {
+    constructor(public problems: string[]) {
+        super(`invalid query:\n  ${problems.join('\n  ')}`)
+    }
+
+    get name(): string {
+        return 'QueryBuilderError'
+    }
+}
+
+
+export function evm(): EvmQueryBuilder {
+    return new EvmQueryBuilder()
+}
+
+
+export function solana(): SolanaQueryBuilder {
+    return new SolanaQueryBuilder()
+}
+
+
+type AnySelection = {[entity: string]: {[field: string]: boolean | undefined} | undefined}
+
+
+function mergeFields<F extends object>(a: F | undefined, b: F): F {
+    let merged: AnySelection = {...a}
+    for (let [entity, fields] of Object.entries(b as AnySelection)) {
+        let selection = {...merged[entity]}
+        for (let field in fields) {
+            selection[field] = selection[field] || fields[field]
+        }
+        merged[entity] = selection
+    }
+    return merged as F
+}
+
+
+/**
+ * Find item types with selected fields, that are never returned by the query
+ */
+function checkSelectedItems(
+    fields: AnySelection | undefined,
+    items: Set<string>,
+    kinds: Record<string, string>
+): string[] {
+    let problems: string[] = []
+    for (let entity in kinds) {
+        let selection = fields?.[entity]
+        if (selection == null || !Object.values(selection).some(v => v)) continue
+        if (items.has(kinds[entity])) continue
+        problems.push(
+            `${entity} fields are selected, but none of the requests returns ${kinds[entity]}, ` +
+            `a relation flag might be missing`
+        )
+    }
+    return problems
+}
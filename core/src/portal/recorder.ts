@@ -0,0 +1,78 @@
+import {createWriteStream} from 'node:fs'
+import {PassThrough, Writable} from 'node:stream'
+import {pipeline} from 'node:stream/promises'
+import {assertZstdSupport, createCompressStream, getFileCompression} from '../util/compression'
+import {waitDrain} from '../util/io'
+import {LineSplitter} from '../util/line-splitter'
+import type {PortalApi, PortalStreamResponse} from './core/portal-api'
+
+
+/**
+ * {@link PortalApi} wrapper, that appends all complete NDJSON lines received from the portal to a file.
+ *
+ * Each response is written as a separate compression frame,
+ * so that the file stays valid even if the process gets killed between responses.
+ */
+export class RecordingPortalApi implements PortalApi {
+    constructor(private api: PortalApi, private file: string) {
+        if (getFileCompression(file) == 'zstd') {
+            assertZstdSupport()
+        }
+    }
+
+    async stream(query: object, abortSignal: AbortSignal): Promise<PortalStreamResponse> {
+        let res = await this.api.stream(query, abortSignal)
+        if (res.status == 200) {
+            return {...res, data: this.record(res.data)}
+        } else {
+            return res
+        }
+    }
+
+    isRetriableError(err: unknown): boolean {
+        return this.api.isRetriableError?.(err) ?? false
+    }
+
+    getRetryPause(err: unknown): number | undefined {
+        return this.api.getRetryPause?.(err)
+    }
+
+    private async *record(data: AsyncIterable<Uint8Array>): AsyncIterable<Uint8Array> {
+        let out = new PassThrough()
+
+        let compression = getFileCompression(this.file)
+        let done = compression
+            ? pipeline(out, createCompressStream(compression), createWriteStream(this.file, {flags: 'a'}))
+            : pipeline(out, createWriteStream(this.file, {flags: 'a'}))
+
+        done.catch(_ => {})
+
+        let lines: string[] = []
+        let splitter = new LineSplitter(line => lines.push(line))
+
+        try {
+            for await (let chunk of data) {
+                splitter.push(chunk)
+                await writeLines(out, lines)
+                lines = []
+                yield chunk
+            }
+            splitter.end()
+            await writeLines(out, lines)
+        } finally {
+            // incomplete trailing line (if any) is dropped
+            out.end()
+            await done
+        }
+    }
+}
+
+
+async function writeLines(out: Writable, lines: string[]): Promise<void> {
+    for (let line of lines) {
+        if (out.writableNeedDrain) {
+            await waitDrain(out)
+        }
+        out.write(line + '\n')
+    }
+}
@@ -0,0 +1,158 @@
+export type Labels = Record<string, string>
+
+
+interface Metric {
+    name: string
+    help: string
+    type: 'counter' | 'gauge' | 'histogram'
+    render(): string[]
+}
+
+
+/**
+ * Minimal registry of metrics rendered in Prometheus text exposition format.
+ */
+export class Registry {
+    private metrics = new Map<string, Metric>()
+
+    counter(name: string, help: string): Counter {
+        return this.register(name, () => new Counter(name, help))
+    }
+
+    gauge(name: string, help: string): Gauge {
+        return this.register(name, () => new Gauge(name, help))
+    }
+
+    histogram(name: string, help: string, buckets?: number[]): Histogram {
+        return this.register(name, () => new Histogram(name, help, buckets))
+    }
+
+    render(): string {
+        let lines: string[] = []
+        for (let metric of this.metrics.values()) {
+            lines.push(`# HELP ${metric.name} ${metric.help}`)
+            lines.push(`# TYPE ${metric.name} ${metric.type}`)
+            lines.push(...metric.render())
+        }
+        return lines.join('\n') + '\n'
+    }
+
+    private register<M extends Metric>(name: string, create: () => M): M {
+        let metric = this.metrics.get(name)
+        if (metric == null) {
+            metric = create()
+            this.metrics.set(name, metric)
+        }
+        return metric as M
+    }
+}
+
+
+/**
+ * Registry, that collects metrics of all framework components.
+ */
+export const registry = new Registry()
+
+
+abstract class LabeledMetric<V> {
+    protected values = new Map<string, {labels: Labels, value: V}>()
+
+    constructor(public readonly name: string, public readonly help: string) {}
+
+    protected entry(labels: Labels, init: () => V): {labels: Labels, value: V} {
+        let key = labelsKey(labels)
+        let e = this.values.get(key)
+        if (e == null) {
+            e = {labels, value: init()}
+            this.values.set(key, e)
+        }
+        return e
+    }
+}
+
+
+export class Counter extends LabeledMetric<number> implements Metric {
+    readonly type = 'counter'
+
+    inc(value: number = 1, labels: Labels = {}): void {
+        this.entry(labels, () => 0).value += value
+    }
+
+    render(): string[] {
+        return Array.from(this.values.values(), e => `${this.name}${formatLabels(e.labels)} ${e.value}`)
+    }
+}
+
+
+export class Gauge extends LabeledMetric<number> implements Metric {
+    readonly type = 'gauge'
+
+    set(value: number, labels: Labels = {}): void {
+        this.entry(labels, () => 0).value = value
+    }
+
+    render(): string[] {
+        return Array.from(this.values.values(), e => `${this.name}${formatLabels(e.labels)} ${e.value}`)
+    }
+}
+
+
+interface HistogramValue {
+    counts: number[]
+    sum: number
+    count: number
+}
+
+
+export class Histogram extends LabeledMetric<HistogramValue> implements Metric {
+    readonly type = 'histogram'
+
+    constructor(
+        name: string,
+        help: string,
+        private buckets: number[] = [0.01, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30]
+    ) {
+        super(name, help)
+    }
+
+    observe(value: number, labels: Labels = {}): void {
+        let v = this.entry(labels, () => ({counts: this.buckets.map(() => 0), sum: 0, count: 0})).value
+        for (let i = 0; i < this.buckets.length; i++) {
+            if (value <= this.buckets[i]) {
+                v.counts[i] += 1
+            }
+        }
+        v.sum += value
+        v.count += 1
+    }
+
+    render(): string[] {
+        let lines: string[] = []
+        for (let {labels, value} of this.values.values()) {
+            for (let i = 0; i < this.buckets.length; i++) {
+                lines.push(`${this.name}_bucket${formatLabels({...labels, le: '' + this.buckets[i]})} ${value.counts[i]}`)
+            }
+            lines.push(`${this.name}_bucket${formatLabels({...labels, le: '+Inf'})} ${value.count}`)
+            lines.push(`${this.name}_sum${formatLabels(labels)} ${value.sum}`)
+            lines.push(`${this.name}_count${formatLabels(labels)} ${value.count}`)
+        }
+        return lines
+    }
+}
+
+
+function labelsKey(labels: Labels): string {
+    return Object.keys(labels).sort().map(key => `${key}=${labels[key]}`).join(',')
+}
+
+
+function formatLabels(labels: Labels): string {
+    let keys = Object.keys(labels)
+    if (keys.length == 0) return ''
+    let pairs = keys.map(key => {
+        let value = labels[key].replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"')
+        return `${key}="${value}"`
+    })
+    return `{${pairs.join(',')}}`
+}
+
@@ -0,0 +1,65 @@
+import {createLogger} from '@subsquid/logger'
+import {ClickhouseClient} from './clickhouse/client'
+import type {DataSource, ReindexOptions} from './clickhouse-processor'
+import {BlockRef} from './common'
+
+
+const log = createLogger('core:reindex')
+
+
+/**
+ * Validate the re-index range and delete rows of the selected tables within it.
+ *
+ * @returns tables to re-index
+ */
+export async function prepareReindex(
+    clickhouse: ClickhouseClient,
+    database: string,
+    tableList: string[],
+    head: BlockRef | undefined,
+    source: DataSource<unknown>,
+    reindex: ReindexOptions
+): Promise<string[]>
+{
+    let {fromBlock, toBlock, tables = tableList} = reindex
+
+    if (source.createRangeStream == null) {
+        throw new Error('data source does not support re-indexing')
+    }
+    if (fromBlock > toBlock) {
+        throw new Error(`invalid re-index range: ${fromBlock} > ${toBlock}`)
+    }
+    if (head == null || toBlock > head.number) {
+        throw new Error(
+            `re-index range ${fromBlock}-${toBlock} goes beyond the processing head ${head?.number ?? 'which is not present'}`
+        )
+    }
+    if (tables.length == 0) {
+        throw new Error('no tables were selected for re-indexing')
+    }
+    for (let table of tables) {
+        if (!tableList.includes(table)) {
+            throw new Error(`table '${table}' selected for re-indexing is not defined in database '${database}'`)
+        }
+    }
+
+    for (let table of tables) {
+        await clickhouse.command(
+            `DELETE FROM ${database}.${table} WHERE block_number >= ${fromBlock} AND block_number <= ${toBlock}`
+        )
+        log.info(`cleared blocks ${fromBlock}-${toBlock} in '${table}'`)
+    }
+
+    return tables
+}
+
+
+export function pickTables(tables: Record<string, object[]>, names: string[]): Record<string, object[]> {
+    let picked: Record<string, object[]> = {}
+    for (let name of names) {
+        if (tables[name]) {
+            picked[name] = tables[name]
+        }
+    }
+    return picked
+}
@@ -0,0 +1,118 @@
+import {createLogger} from '@subsquid/logger'
+import {ClickhouseClient} from './clickhouse/client'
+import {BlockRef, ForkException} from './common'
+import {maybeLast} from './util/misc'
+
+
+const log = createLogger('core:rollback')
+
+
+/**
+ * Block reference as returned by ClickHouse,
+ * which serializes `UInt64` values as strings in JSON formats.
+ */
+interface StoredBlockRef {
+    number: number | string
+    hash: string
+}
+
+
+function toBlockRef(ref: StoredBlockRef): BlockRef {
+    return {number: Number(ref.number), hash: ref.hash}
+}
+
+
+export async function getHead(clickhouse: ClickhouseClient, database: string): Promise<BlockRef | undefined> {
+    return clickhouse.query<StoredBlockRef>(
+        `SELECT number, hash FROM ${database}.blocks ORDER BY number DESC LIMIT 1`
+    ).then(res => {
+        let head = maybeLast(res.data)
+        return head && toBlockRef(head)
+    })
+}
+
+
+export async function clearPartialData(
+    clickhouse: ClickhouseClient,
+    database: string,
+    tableList: string[],
+    head: BlockRef | undefined
+): Promise<void>
+{
+    if (head) {
+        for (let table of tableList) {
+            await clickhouse.command(`DELETE FROM ${database}.${table} WHERE block_number > ${head.number}`)
+            log.debug(`cleared partial data in '${table}'`)
+        }
+    } else {
+        for (let table of tableList) {
+            await clickhouse.command(`DELETE FROM ${database}.${table} WHERE block_number >= 0`)
+            log.debug(`cleared '${table}'`)
+        }
+    }
+}
+
+
+/**
+ * Delete all data above the common ancestor of the stored and the new chain.
+ *
+ * @returns the new processing head
+ */
+export async function rollbackFork(
+    clickhouse: ClickhouseClient,
+    database: string,
+    tableList: string[],
+    fork: ForkException
+): Promise<BlockRef | undefined>
+{
+    let prev = fork.previousBlocks
+    if (prev.length == 0) {
+        throw new Error('fork exception does not list any previous blocks to find the common ancestor')
+    }
+
+    let stored = await clickhouse.query<StoredBlockRef>(
+        `SELECT number, hash FROM ${database}.blocks WHERE number IN (${prev.map(b => b.number).join(', ')})`
+    ).then(res => {
+        return new Map(res.data.map(b => [Number(b.number), b.hash]))
+    })
+
+    let ancestor: BlockRef | undefined
+    for (let i = prev.length - 1; i >= 0; i--) {
+        if (stored.get(prev[i].number) === prev[i].hash) {
+            ancestor = prev[i]
+            break
+        }
+    }
+
+    if (ancestor == null) {
+        // The fork is deeper than the list of provided previous blocks.
+        // We roll back below it and let the data source discover the rest.
+        ancestor = await clickhouse.query<StoredBlockRef>(
+            `SELECT number, hash FROM ${database}.blocks WHERE number < ${prev[0].number} ORDER BY number DESC LIMIT 1`
+        ).then(res => {
+            let block = maybeLast(res.data)
+            return block && toBlockRef(block)
+        })
+    }
+
+    await rollbackTo(clickhouse, database, tableList, ancestor?.number ?? -1)
+
+    return ancestor
+}
+
+
+export async function rollbackTo(
+    clickhouse: ClickhouseClient,
+    database: string,
+    tableList: string[],
+    bottom: number
+): Promise<void>
+{
+    // `blocks` table goes first, so that the rest is cleared on restart
+    // in case of failure
+    await clickhouse.command(`DELETE FROM ${database}.blocks WHERE number > ${bottom}`)
+    for (let table of tableList) {
+        await clickhouse.command(`DELETE FROM ${database}.${table} WHERE block_number > ${bottom}`)
+        log.debug(`rolled back '${table}' to block ${bottom}`)
+    }
+}
@@ -0,0 +1,179 @@
+import type {ClickhouseClient} from './clickhouse/client'
+import type {BlockRef} from './common'
+import {maybeLast} from './util/misc'
+
+
+export interface StateOptions {
+    /**
+     * Block item table to store state snapshots in.
+     *
+     * The table must have the following structure:
+     *
+     * ```sql
+     * CREATE TABLE state (
+     *     block_number UInt64,
+     *     block_hash String,
+     *     key String,
+     *     value String
+     * )
+     * ENGINE = MergeTree()
+     * ORDER BY (block_number, key)
+     * ```
+     *
+     * Default: `state`
+     */
+    table?: string
+    /**
+     * Minimal distance in blocks between state snapshots.
+     *
+     * Default: 1000
+     */
+    snapshotInterval?: number
+}
+
+
+/**
+ * Key-value store, that persists across blocks and process restarts.
+ *
+ * Values must be JSON-serializable (`bigint` values are supported as well).
+ *
+ * The entire state is saved to the database at the first processed block and every `snapshotInterval` blocks after,
+ * in the same block-aligned fashion as all other data.
+ * On restart and on chain forks the processing resumes from the last valid snapshot,
+ * hence, the state always corresponds to the last processed block.
+ *
+ * Snapshots, that can't be needed for fork rollbacks anymore, are deleted,
+ * i.e. only the snapshots above the finalized head and the last one at or below it are kept.
+ */
+export class StateStore {
+    private values = new Map<string, unknown>()
+    private lastSnapshot = -1
+    /**
+     * Blocks of the snapshots, that were not pruned yet
+     */
+    private snapshots: number[] = []
+    private prunedBelow = -1
+    private snapshotInterval: number
+    public readonly table: string
+
+    constructor(options: StateOptions = {}) {
+        this.table = options.table ?? 'state'
+        this.snapshotInterval = options.snapshotInterval ?? 1000
+    }
+
+    get<T = unknown>(key: string): T | undefined {
+        return this.values.get(key) as T | undefined
+    }
+
+    has(key: string): boolean {
+        return this.values.has(key)
+    }
+
+    set(key: string, value: unknown): void {
+        if (key === '') throw new Error('empty state key is reserved')
+        if (value === undefined) {
+            this.values.delete(key)
+        } else {
+            this.values.set(key, value)
+        }
+    }
+
+    delete(key: string): void {
+        this.values.delete(key)
+    }
+
+    keys(): IterableIterator<string> {
+        return this.values.keys()
+    }
+
+    /**
+     * Get snapshot rows, if `snapshotInterval` has passed since the previous snapshot.
+     */
+    takeSnapshot(blockNumber: number): StateRow[] | undefined {
+        if (this.lastSnapshot >= 0 && blockNumber - this.lastSnapshot < this.snapshotInterval) return
+        this.lastSnapshot = blockNumber
+        this.snapshots.push(blockNumber)
+        // snapshot marker, that makes empty states visible
+        let rows: StateRow[] = [{key: '', value: ''}]
+        for (let [key, value] of this.values) {
+            rows.push({key, value: JSON.stringify(value, replacer)})
+        }
+        return rows
+    }
+
+    /**
+     * Load the last snapshot at or below the given block.
+     *
+     * @returns block of the loaded snapshot, `undefined` when there is no such snapshot
+     */
+    async restore(
+        clickhouse: ClickhouseClient,
+        database: string,
+        atOrBelow: number
+    ): Promise<BlockRef | undefined> {
+        this.values.clear()
+        this.lastSnapshot = -1
+        this.snapshots = []
+        this.prunedBelow = -1
+
+        let snapshot = await clickhouse.query<{block_number: string, block_hash: string}>(
+            `SELECT block_number, block_hash FROM ${database}.${this.table} ` +
+            `WHERE key = '' AND block_number <= ${atOrBelow} ` +
+            `ORDER BY block_number DESC LIMIT 1`
+        ).then(res => {
+            return maybeLast(res.data)
+        })
+
+        if (snapshot == null) return
+
+        let blockNumber = Number(snapshot.block_number)
+
+        let rows = await clickhouse.query<StateRow>(
+            `SELECT key, value FROM ${database}.${this.table} WHERE block_number = ${blockNumber} AND key != ''`
+        )
+
+        for (let row of rows.data) {
+            this.values.set(row.key, JSON.parse(row.value, reviver))
+        }
+
+        this.lastSnapshot = blockNumber
+        this.snapshots.push(blockNumber)
+        return {number: blockNumber, hash: snapshot.block_hash}
+    }
+
+    /**
+     * Delete all snapshots below the last one at or below the finalized head.
+     *
+     * `finalizedHead` must not exceed the last committed block.
+     */
+    async prune(clickhouse: ClickhouseClient, database: string, finalizedHead: number): Promise<void> {
+        let keep: number | undefined
+        while (this.snapshots.length > 0 && this.snapshots[0] <= finalizedHead) {
+            keep = this.snapshots.shift()
+        }
+        if (keep == null) return
+        this.snapshots.unshift(keep)
+        if (keep <= this.prunedBelow) return
+        await clickhouse.command(`DELETE FROM ${database}.${this.table} WHERE block_number < ${keep}`)
+        this.prunedBelow = keep
+    }
+}
+
+
+export interface StateRow {
+    key: string
+    value: string
+}
+
+
+function replacer(_key: string, value: unknown): unknown {
+    return typeof value == 'bigint' ? {$bigint: value.toString()} : value
+}
+
+
+function reviver(_key: string, value: any): unknown {
+    if (value != null && typeof value == 'object' && typeof value.$bigint == 'string' && Object.keys(value).length == 1) {
+        return BigInt(value.$bigint)
+    }
+    return value
+}
@@ -0,0 +1,217 @@
+import * as http from 'node:http'
+import type {AddressInfo} from 'node:net'
+import type {ClickhouseClient} from './clickhouse/client'
+import {registry} from './prometheus'
+import {maybeLast} from './util/misc'
+
+
+export interface StatusOptions {
+    /**
+     * Maximum distance (in blocks) to the chain head, at which the processor is considered ready.
+     *
+     * Default: 10 blocks
+     */
+    maxReadyLag?: number
+    /**
+     * Maximum time without new batches from the data source, after which the processor is considered unhealthy.
+     *
+     * Default: 5 mins
+     */
+    maxBatchInterval?: number
+}
+
+
+export interface StatusReport {
+    ok: boolean
+    problems: string[]
+    /**
+     * Last block persisted in the `blocks` table
+     */
+    head?: {
+        number: number
+        hash: string
+        timestamp?: number
+    }
+    /**
+     * Chain head reported by the data source
+     */
+    chainHead?: number
+    lag?: {
+        blocks?: number
+        seconds?: number
+    }
+}
+
+
+/**
+ * Tracks the processor state for health and readiness probes.
+ */
+export class ProcessorStatus {
+    private maxReadyLag: number
+    private maxBatchInterval: number
+    private lastBatchTime = Date.now()
+    private chainHead?: number
+    private writer?: {isHealthy: boolean}
+
+    constructor(
+        private clickhouse: ClickhouseClient,
+        private database: string,
+        private hasTimestamp: boolean,
+        options: StatusOptions = {}
+    ) {
+        this.maxReadyLag = options.maxReadyLag ?? 10
+        this.maxBatchInterval = options.maxBatchInterval ?? 5 * 60_000
+    }
+
+    setWriter(writer: {isHealthy: boolean}): void {
+        this.writer = writer
+    }
+
+    registerBatch(batch: {headNumber?: number}): void {
+        this.lastBatchTime = Date.now()
+        if (batch.headNumber != null) {
+            this.chainHead = batch.headNumber
+        }
+    }
+
+    /**
+     * Liveness check, fails when the writer has failed
+     * or the data source has not produced a batch for too long.
+     */
+    async health(): Promise<StatusReport> {
+        let report = await this.getReport()
+        if (this.writer && !this.writer.isHealthy) {
+            report.problems.push('writer has failed')
+        }
+        let sinceLastBatch = Date.now() - this.lastBatchTime
+        if (sinceLastBatch > this.maxBatchInterval) {
+            report.problems.push(`no data batches for ${Math.round(sinceLastBatch / 1000)} secs`)
+        }
+        report.ok = report.problems.length == 0
+        return report
+    }
+
+    /**
+     * Readiness check, succeeds when the processor is close enough to the chain head.
+     */
+    async ready(): Promise<StatusReport> {
+        let report = await this.getReport()
+        let lag = report.lag?.blocks
+        if (lag == null) {
+            report.problems.push('chain head is not known yet')
+        } else if (lag > this.maxReadyLag) {
+            report.problems.push(`processor is ${lag} blocks behind the chain head`)
+        }
+        report.ok = report.problems.length == 0
+        return report
+    }
+
+    private async getReport(): Promise<StatusReport> {
+        let report: StatusReport = {ok: false, problems: [], chainHead: this.chainHead}
+
+        try {
+            let res = await this.clickhouse.query<{number: string, hash: string, timestamp?: string}>(
+                `SELECT number, hash${this.hasTimestamp ? ', toUnixTimestamp(timestamp) AS timestamp' : ''} ` +
+                `FROM ${this.database}.blocks ORDER BY number DESC LIMIT 1`
+            )
+            let row = maybeLast(res.data)
+            if (row) {
+                report.head = {
+                    number: Number(row.number),
+                    hash: row.hash,
+                    timestamp: row.timestamp == null ? undefined : Number(row.timestamp)
+                }
+            }
+        } catch(err: any) {
+            report.problems.push(`failed to fetch the head from the database: ${err.message}`)
+            return report
+        }
+
+        let headNumber = report.head?.number ?? -1
+        report.lag = {}
+        if (this.chainHead != null) {
+            report.lag.blocks = Math.max(0, this.chainHead - headNumber)
+        }
+        if (report.head?.timestamp != null) {
+            report.lag.seconds = Math.max(0, Math.floor(Date.now() / 1000) - report.head.timestamp)
+        }
+        return report
+    }
+}
+
+
+export interface StatusServer {
+    port: number
+    close(): Promise<void>
+}
+
+
+/**
+ * Serve Prometheus metrics at `/metrics`
+ * and, when `status` is given, health and readiness probes at `/health` and `/ready`.
+ *
+ * Probes respond with HTTP 200 or 503 and JSON encoded {@link StatusReport}.
+ */
+export async function serveStatus(port: number, status?: ProcessorStatus): Promise<StatusServer> {
+    let server = http.createServer((req, res) => {
+        handleRequest(req, res, status).catch(err => {
+            if (res.headersSent) {
+                res.destroy(err)
+            } else {
+                res.writeHead(500, {'content-type': 'text/plain'})
+                res.end(String(err))
+            }
+        })
+    })
+
+    await new Promise<void>((resolve, reject) => {
+        server.once('error', reject)
+        server.listen(port, () => {
+            server.off('error', reject)
+            resolve()
+        })
+    })
+
+    // don't keep the process alive because of the server
+    server.unref()
+
+    return {
+        port: (server.address() as AddressInfo).port,
+        close() {
+            return new Promise((resolve, reject) => {
+                server.closeAllConnections()
+                server.close(err => err ? reject(err) : resolve())
+            })
+        }
+    }
+}
+
+
+async function handleRequest(
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+    status: ProcessorStatus | undefined
+): Promise<void> {
+    let path = req.url?.split('?')[0]
+    if (req.method != 'GET') {
+        res.writeHead(405)
+        res.end()
+        return
+    }
+
+    if (path == '/metrics') {
+        res.writeHead(200, {'content-type': 'text/plain; version=0.0.4; charset=utf-8'})
+        res.end(registry.render())
+        return
+    }
+
+    if (status && (path == '/health' || path == '/ready')) {
+        let report = path == '/health' ? await status.health() : await status.ready()
+        res.writeHead(report.ok ? 200 : 503, {'content-type': 'application/json'})
+        res.end(JSON.stringify(report))
+        return
+    }
+
+    res.writeHead(404)
+    res.end()
+}
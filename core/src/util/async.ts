@@ -22,7 +22,7 @@ export function createFuture<T>(): Future<T> {
 export function wait(ms: number, abortSignal?: AbortSignal): Promise<void> {
     if (abortSignal) {
         return new Promise((resolve, reject) => {
-            if (abortSignal.aborted) return reject(new Error('aborted'))
+            if (abortSignal.aborted) return reject(abortSignal.reason)
 
             abortSignal.addEventListener('abort', abort, {once: true})
 
@@ -33,7 +33,7 @@ export function wait(ms: number, abortSignal?: AbortSignal): Promise<void> {
 
             function abort() {
                 clearTimeout(timer)
-                reject(new Error('aborted'))
+                reject(abortSignal!.reason)
             }
         })
     } else {
@@ -0,0 +1,44 @@
+import type {Transform} from 'node:stream'
+import * as zlib from 'node:zlib'
+
+
+export type Compression = 'gzip' | 'zstd'
+
+
+export function getFileCompression(file: string): Compression | undefined {
+    if (file.endsWith('.gz')) return 'gzip'
+    if (file.endsWith('.zst') || file.endsWith('.zstd')) return 'zstd'
+    return undefined
+}
+
+
+/**
+ * Zstandard streams are available in `node:zlib` only since Node.js v22.15
+ */
+export function assertZstdSupport(): void {
+    if (!('createZstdCompress' in zlib)) {
+        throw new Error(`zstd requires Node >= 22.15, current version is ${process.version}`)
+    }
+}
+
+
+export function createCompressStream(compression: Compression): Transform {
+    switch(compression) {
+        case 'gzip':
+            return zlib.createGzip()
+        case 'zstd':
+            assertZstdSupport()
+            return zlib.createZstdCompress()
+    }
+}
+
+
+export function createDecompressStream(compression: Compression): Transform {
+    switch(compression) {
+        case 'gzip':
+            return zlib.createGunzip()
+        case 'zstd':
+            assertZstdSupport()
+            return zlib.createZstdDecompress()
+    }
+}
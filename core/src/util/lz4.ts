@@ -0,0 +1,194 @@
+import {Transform, TransformCallback} from 'node:stream'
+
+
+const BLOCK_SIZE = 64 * 1024
+const MIN_MATCH = 4
+const LAST_LITERALS = 5
+const MF_LIMIT = 12
+const HASH_LOG = 16
+const MAX_OFFSET = 65535
+
+
+/**
+ * Create a stream, that compresses data into LZ4 frame format
+ * (as produced by `lz4(1)` utility and understood by `Content-Encoding: lz4` of ClickHouse).
+ */
+export function createLz4CompressStream(): Transform {
+    return new Lz4CompressStream()
+}
+
+
+class Lz4CompressStream extends Transform {
+    private block = Buffer.allocUnsafe(BLOCK_SIZE)
+    private blockSize = 0
+    private hashTable = new Int32Array(1 << HASH_LOG)
+    private headerWritten = false
+
+    _transform(chunk: Buffer, _encoding: BufferEncoding, cb: TransformCallback): void {
+        this.writeHeader()
+        let pos = 0
+        while (pos < chunk.length) {
+            let len = Math.min(chunk.length - pos, BLOCK_SIZE - this.blockSize)
+            chunk.copy(this.block, this.blockSize, pos, pos + len)
+            this.blockSize += len
+            pos += len
+            if (this.blockSize == BLOCK_SIZE) {
+                this.writeBlock()
+            }
+        }
+        cb()
+    }
+
+    _flush(cb: TransformCallback): void {
+        this.writeHeader()
+        if (this.blockSize > 0) {
+            this.writeBlock()
+        }
+        // end mark
+        this.push(Buffer.alloc(4))
+        cb()
+    }
+
+    private writeHeader(): void {
+        if (this.headerWritten) return
+        this.headerWritten = true
+        let header = Buffer.alloc(7)
+        header.writeUInt32LE(0x184D2204, 0)
+        // FLG: version 01, independent blocks, no checksums
+        header[4] = 0x60
+        // BD: 64 KB max block size
+        header[5] = 0x40
+        header[6] = (xxh32(header.subarray(4, 6)) >>> 8) & 0xff
+        this.push(header)
+    }
+
+    private writeBlock(): void {
+        let src = this.block.subarray(0, this.blockSize)
+        let dst = Buffer.allocUnsafe(4 + src.length + Math.ceil(src.length / 255) + 16)
+        let size = compressBlock(src, dst.subarray(4), this.hashTable)
+        if (size > 0 && size < src.length) {
+            dst.writeUInt32LE(size, 0)
+            this.push(dst.subarray(0, 4 + size))
+        } else {
+            // incompressible data is stored as is
+            dst.writeUInt32LE((src.length | 0x80000000) >>> 0, 0)
+            src.copy(dst, 4)
+            this.push(dst.subarray(0, 4 + src.length))
+        }
+        this.block = Buffer.allocUnsafe(BLOCK_SIZE)
+        this.blockSize = 0
+    }
+}
+
+
+function compressBlock(src: Buffer, dst: Buffer, hashTable: Int32Array): number {
+    hashTable.fill(-1)
+
+    let end = src.length
+    let matchLimit = end - LAST_LITERALS
+    let mfLimit = end - MF_LIMIT
+    let anchor = 0
+    let ip = 0
+    let op = 0
+
+    while (ip < mfLimit) {
+        let seq = src.readUInt32LE(ip)
+        let h = Math.imul(seq, 2654435761) >>> (32 - HASH_LOG)
+        let ref = hashTable[h]
+        hashTable[h] = ip
+
+        if (ref < 0 || ip - ref > MAX_OFFSET || src.readUInt32LE(ref) !== seq) {
+            ip += 1
+            continue
+        }
+
+        let matchLength = MIN_MATCH
+        while (ip + matchLength < matchLimit && src[ref + matchLength] === src[ip + matchLength]) {
+            matchLength += 1
+        }
+
+        op = writeSequence(src, dst, op, anchor, ip, ip - ref, matchLength)
+        ip += matchLength
+        anchor = ip
+    }
+
+    return writeLastLiterals(src, dst, op, anchor, end)
+}
+
+
+function writeSequence(
+    src: Buffer,
+    dst: Buffer,
+    op: number,
+    anchor: number,
+    ip: number,
+    offset: number,
+    matchLength: number
+): number {
+    let literalLength = ip - anchor
+    let ml = matchLength - MIN_MATCH
+    dst[op++] = (Math.min(literalLength, 15) << 4) | Math.min(ml, 15)
+    op = writeLength(dst, op, literalLength)
+    src.copy(dst, op, anchor, ip)
+    op += literalLength
+    dst.writeUInt16LE(offset, op)
+    op += 2
+    return writeLength(dst, op, ml)
+}
+
+
+function writeLastLiterals(src: Buffer, dst: Buffer, op: number, anchor: number, end: number): number {
+    let literalLength = end - anchor
+    dst[op++] = Math.min(literalLength, 15) << 4
+    op = writeLength(dst, op, literalLength)
+    src.copy(dst, op, anchor, end)
+    return op + literalLength
+}
+
+
+function writeLength(dst: Buffer, op: number, len: number): number {
+    if (len < 15) return op
+    len -= 15
+    while (len >= 255) {
+        dst[op++] = 255
+        len -= 255
+    }
+    dst[op++] = len
+    return op
+}
+
+
+const PRIME1 = 2654435761
+const PRIME2 = 2246822519
+const PRIME3 = 3266489917
+const PRIME4 = 668265263
+const PRIME5 = 374761393
+
+
+/**
+ * xxHash32 of short (< 16 bytes) inputs with zero seed
+ */
+export function xxh32(data: Uint8Array): number {
+    let h = (PRIME5 + data.length) >>> 0
+    let i = 0
+    for (; i + 4 <= data.length; i += 4) {
+        let word = (data[i] | (data[i + 1] << 8) | (data[i + 2] << 16) | (data[i + 3] << 24)) >>> 0
+        h = (h + Math.imul(word, PRIME3)) >>> 0
+        h = Math.imul(rotl(h, 17), PRIME4) >>> 0
+    }
+    for (; i < data.length; i++) {
+        h = (h + Math.imul(data[i], PRIME5)) >>> 0
+        h = Math.imul(rotl(h, 11), PRIME1) >>> 0
+    }
+    h ^= h >>> 15
+    h = Math.imul(h, PRIME2) >>> 0
+    h ^= h >>> 13
+    h = Math.imul(h, PRIME3) >>> 0
+    h ^= h >>> 16
+    return h >>> 0
+}
+
+
+function rotl(x: number, r: number): number {
+    return ((x << r) | (x >>> (32 - r))) >>> 0
+}
@@ -0,0 +1,48 @@
+import assert from 'node:assert/strict'
+import {createServer} from 'node:http'
+import {AddressInfo} from 'node:net'
+import {describe, it} from 'node:test'
+import * as zlib from 'node:zlib'
+import {createUpload} from '../src/clickhouse/upload'
+import {createCompressStream, createDecompressStream} from '../src/util/compression'
+
+
+describe('zstd compression', () => {
+    let supported = 'createZstdCompress' in zlib
+
+    it('is reported as unsupported on older Node.js versions', {skip: supported}, () => {
+        assert.throws(() => createCompressStream('zstd'), /zstd requires Node >= 22\.15/)
+        assert.throws(() => createDecompressStream('zstd'), /zstd requires Node >= 22\.15/)
+    })
+
+    it('is checked before an upload opens a request', {skip: supported}, async () => {
+        let requests = 0
+        let server = createServer((req, res) => {
+            requests += 1
+            res.end()
+        })
+        await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+        try {
+            let url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+            assert.throws(() => createUpload(url, {compression: 'zstd'}), /zstd requires Node >= 22\.15/)
+            await new Promise(resolve => setTimeout(resolve, 50))
+            assert.equal(requests, 0)
+            assert.equal(await new Promise(resolve => server.getConnections((_, n) => resolve(n))), 0)
+        } finally {
+            server.close()
+        }
+    })
+
+    it('round-trips data', {skip: !supported}, async () => {
+        let input = Buffer.from('hello zstd\n'.repeat(100))
+        let compress = createCompressStream('zstd')
+        let decompress = createDecompressStream('zstd')
+        compress.pipe(decompress)
+        compress.end(input)
+        let chunks: Buffer[] = []
+        for await (let chunk of decompress) {
+            chunks.push(chunk)
+        }
+        assert.deepEqual(Buffer.concat(chunks), input)
+    })
+})
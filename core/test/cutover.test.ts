@@ -0,0 +1,169 @@
+import assert from 'node:assert/strict'
+import {describe, it} from 'node:test'
+import {ClickhouseClient, QueryResponse} from '../src/clickhouse/client'
+import {CUTOVER_TABLE, runCutover} from '../src/clickhouse-processor'
+
+
+interface FakeTable {
+    origin: string
+    uuid: string
+    blocks: {number: string, hash: string}[]
+}
+
+
+const COLUMNS: Record<string, string[][]> = {
+    blocks: [['number', 'UInt64'], ['hash', 'String'], ['parent_hash', 'String']],
+    transfers: [['block_number', 'UInt64'], ['block_hash', 'String'], ['amount', 'UInt256']]
+}
+
+
+/**
+ * Two databases with `blocks` and `transfers` tables, that understand queries of the cut-over.
+ *
+ * The cut-over journal is kept as the list of inserted rows.
+ */
+class FakeDatabases {
+    public tables = new Map<string, FakeTable>()
+    public journal?: string[][]
+    public onExchange?: (table: string) => void
+    public down = false
+
+    constructor(heads: Record<string, number>) {
+        for (let db in heads) {
+            for (let table in COLUMNS) {
+                let blocks = table == 'blocks' ? [{number: String(heads[db]), hash: `${db}-${heads[db]}`}] : []
+                this.tables.set(`${db}.${table}`, {origin: db, uuid: `${db}-${table}-uuid`, blocks})
+            }
+        }
+    }
+
+    get client(): ClickhouseClient {
+        return this as unknown as ClickhouseClient
+    }
+
+    async query<R>(sql: string, params?: Record<string, string>): Promise<QueryResponse<R>> {
+        this.assertUp()
+        if (sql.includes('system.columns')) {
+            let data = Object.entries(COLUMNS).flatMap(([table, columns]) => {
+                return columns.map(([name, type]) => ({table, name, type, default_kind: ''}))
+            })
+            return {data: data as R[]}
+        }
+        if (sql.includes('toString(uuid)')) {
+            let data = Array.from(this.tables, ([key, table]) => {
+                let [database, name] = key.split('.')
+                return {database, name, uuid: table.uuid}
+            })
+            return {data: data as R[]}
+        }
+        if (sql.includes('system.tables')) {
+            let exists = params?.table == CUTOVER_TABLE && params?.database == 'live' && this.journal != null
+            return {data: (exists ? [{name: CUTOVER_TABLE}] : []) as R[]}
+        }
+        if (sql.includes(`FROM live.${CUTOVER_TABLE}`)) {
+            let data = this.journal!.map(([shadow, name, live_uuid, shadow_uuid]) => ({shadow, name, live_uuid, shadow_uuid}))
+            return {data: data as R[]}
+        }
+        let m = /FROM (\w+)\.blocks ORDER BY number DESC LIMIT 1/.exec(sql)
+        assert.ok(m, `unexpected query: ${sql}`)
+        return {data: this.tables.get(`${m[1]}.blocks`)!.blocks.slice(-1) as R[]}
+    }
+
+    async command(sql: string): Promise<void> {
+        this.assertUp()
+        if (sql.startsWith(`CREATE TABLE live.${CUTOVER_TABLE} `)) {
+            assert.equal(this.journal, undefined)
+            this.journal = []
+            return
+        }
+        if (sql.startsWith(`INSERT INTO live.${CUTOVER_TABLE} `)) {
+            for (let row of sql.matchAll(/\('([^']*)', '([^']*)', '([^']*)', '([^']*)'\)/g)) {
+                this.journal!.push(row.slice(1))
+            }
+            return
+        }
+        if (sql == `DROP TABLE live.${CUTOVER_TABLE}`) {
+            assert.ok(this.journal)
+            this.journal = undefined
+            return
+        }
+        let m = /EXCHANGE TABLES (\w+)\.(\w+) AND (\w+)\.(\w+)/.exec(sql)
+        assert.ok(m, `unexpected command: ${sql}`)
+        let a = `${m[1]}.${m[2]}`
+        let b = `${m[3]}.${m[4]}`
+        let table = this.tables.get(a)!
+        this.tables.set(a, this.tables.get(b)!)
+        this.tables.set(b, table)
+        this.onExchange?.(m[2])
+    }
+
+    private assertUp(): void {
+        if (this.down) throw new Error('connection refused')
+    }
+
+    origin(db: string, table: string): string {
+        return this.tables.get(`${db}.${table}`)!.origin
+    }
+}
+
+
+describe('cut-over', () => {
+    it('swaps all tables', async () => {
+        let db = new FakeDatabases({shadow: 100, live: 100})
+        await runCutover(db.client, 'shadow', 'live')
+        assert.equal(db.origin('live', 'blocks'), 'shadow')
+        assert.equal(db.origin('live', 'transfers'), 'shadow')
+        assert.equal(db.origin('shadow', 'blocks'), 'live')
+    })
+
+    it('refuses to swap a lagging shadow database', async () => {
+        let db = new FakeDatabases({shadow: 99, live: 100})
+        await assert.rejects(runCutover(db.client, 'shadow', 'live'), /has not caught up/)
+        assert.equal(db.origin('live', 'transfers'), 'live')
+    })
+
+    it('swaps tables back, when the live head moves', async () => {
+        let db = new FakeDatabases({shadow: 100, live: 100})
+        db.onExchange = table => {
+            if (table == 'transfers') {
+                db.tables.get('live.blocks')!.blocks.push({number: '101', hash: 'live-101'})
+            }
+        }
+        await assert.rejects(runCutover(db.client, 'shadow', 'live'), /head of 'live' moved from 100#live-100 to 101#live-101/)
+        assert.equal(db.origin('live', 'blocks'), 'live')
+        assert.equal(db.origin('live', 'transfers'), 'live')
+        assert.equal(db.origin('shadow', 'transfers'), 'shadow')
+        assert.equal(db.journal, undefined)
+    })
+
+    it('completes an interrupted cut-over', async () => {
+        let db = new FakeDatabases({shadow: 100, live: 100})
+        db.onExchange = table => {
+            if (table == 'transfers') db.down = true
+        }
+        await assert.rejects(runCutover(db.client, 'shadow', 'live'), /connection refused/)
+        db.down = false
+        db.onExchange = undefined
+
+        assert.equal(db.origin('live', 'transfers'), 'shadow')
+        assert.equal(db.origin('live', 'blocks'), 'live')
+        assert.deepEqual(db.journal, [
+            ['shadow', 'transfers', 'live-transfers-uuid', 'shadow-transfers-uuid'],
+            ['shadow', 'blocks', 'live-blocks-uuid', 'shadow-blocks-uuid']
+        ])
+
+        await runCutover(db.client, 'shadow', 'live')
+        assert.equal(db.origin('live', 'blocks'), 'shadow')
+        assert.equal(db.origin('live', 'transfers'), 'shadow')
+        assert.equal(db.origin('shadow', 'blocks'), 'live')
+        assert.equal(db.origin('shadow', 'transfers'), 'live')
+        assert.equal(db.journal, undefined)
+    })
+
+    it('refuses to complete an interrupted cut-over of another shadow database', async () => {
+        let db = new FakeDatabases({shadow: 100, other: 100, live: 100})
+        db.journal = [['other', 'blocks', 'live-blocks-uuid', 'other-blocks-uuid']]
+        await assert.rejects(runCutover(db.client, 'shadow', 'live'), /cut-over of 'other' and 'live' was interrupted/)
+        assert.equal(db.origin('live', 'blocks'), 'live')
+    })
+})
@@ -0,0 +1,49 @@
+import {ClickhouseClient, QueryResponse} from '../src/clickhouse/client'
+
+
+/**
+ * In-memory stand-in for {@link ClickhouseClient}, that understands only queries
+ * against the `blocks` table issued by the processor during rollbacks.
+ *
+ * Like the real ClickHouse, it returns `UInt64` block numbers as strings.
+ */
+export class FakeClickhouse {
+    public blocks: {number: string, hash: string}[] = []
+    public commands: string[] = []
+
+    constructor(blocks: {number: number, hash: string}[] = []) {
+        for (let b of blocks) {
+            this.blocks.push({number: String(b.number), hash: b.hash})
+        }
+    }
+
+    get client(): ClickhouseClient {
+        return this as unknown as ClickhouseClient
+    }
+
+    async query<R>(sql: string): Promise<QueryResponse<R>> {
+        let rows = this.blocks.slice()
+        let m: RegExpExecArray | null
+        if (m = /WHERE number IN \(([^)]*)\)/.exec(sql)) {
+            let numbers = m[1].split(',').map(n => n.trim())
+            rows = rows.filter(b => numbers.includes(b.number))
+        } else if (m = /WHERE number < (\d+)/.exec(sql)) {
+            let bound = Number(m[1])
+            rows = rows.filter(b => Number(b.number) < bound)
+        }
+        if (/ORDER BY number DESC LIMIT 1/.test(sql)) {
+            rows.sort((a, b) => Number(a.number) - Number(b.number))
+            rows = rows.slice(-1)
+        }
+        return {data: rows as R[]}
+    }
+
+    async command(sql: string): Promise<void> {
+        this.commands.push(sql)
+        let m = /DELETE FROM \w+\.blocks WHERE number > (-?\d+)/.exec(sql)
+        if (m) {
+            let bottom = Number(m[1])
+            this.blocks = this.blocks.filter(b => Number(b.number) <= bottom)
+        }
+    }
+}
@@ -0,0 +1,53 @@
+import assert from 'node:assert/strict'
+import {mkdtempSync, rmSync, writeFileSync} from 'node:fs'
+import {tmpdir} from 'node:os'
+import {join} from 'node:path'
+import {after, before, describe, it} from 'node:test'
+import {BlockRef, isForkException} from '../src/common'
+import {FileDataSource} from '../src/portal/file-data-source'
+import {MockChain} from '../src/portal/mock-portal'
+
+
+describe('FileDataSource', () => {
+    let chain = new MockChain().addBlocks(10)
+    let dir: string
+    let file: string
+
+    before(() => {
+        dir = mkdtempSync(join(tmpdir(), 'file-data-source-'))
+        file = join(dir, 'blocks.jsonl')
+        // recorded portal streams contain only blocks with requested items
+        let lines = [1, 2, 5, 6, 9].map(n => JSON.stringify({header: chain.getBlock(n)!.header}) + '\n')
+        writeFileSync(file, lines.join(''))
+    })
+
+    after(() => rmSync(dir, {recursive: true, force: true}))
+
+    function ref(n: number): BlockRef {
+        let header = chain.getBlock(n)!.header
+        return {number: header.number, hash: header.hash}
+    }
+
+    async function collect(afterBlock: BlockRef): Promise<number[]> {
+        let source = new FileDataSource(file, {type: 'evm', fromBlock: 1})
+        let blocks: number[] = []
+        for await (let batch of source.createDataStream(afterBlock)) {
+            blocks.push(...batch.blocks.map(b => b.header.number))
+        }
+        return blocks
+    }
+
+    it('resumes from a block, that is followed by a gap', async () => {
+        assert.deepEqual(await collect(ref(2)), [5, 6, 9])
+        assert.deepEqual(await collect(ref(6)), [9])
+        assert.deepEqual(await collect(ref(7)), [9])
+    })
+
+    it('detects a fork, when the next block is present', async () => {
+        await assert.rejects(collect({number: 5, hash: '0xforked'}), err => {
+            assert.ok(isForkException(err))
+            assert.deepEqual(err.previousBlocks, [ref(5)])
+            return true
+        })
+    })
+})
@@ -0,0 +1,26 @@
+import {threadId} from 'node:worker_threads'
+
+
+/**
+ * Block of map worker tests, that tells the mapping function how to behave
+ */
+export interface TestBlock {
+    number: number
+    delay?: number
+    fail?: boolean
+    exit?: number
+}
+
+
+export async function map(block: TestBlock): Promise<{rows: {number: number, thread: number}[]}> {
+    if (block.delay) {
+        await new Promise(resolve => setTimeout(resolve, block.delay))
+    }
+    if (block.exit != null) {
+        process.exit(block.exit)
+    }
+    if (block.fail) {
+        throw new Error(`failed to map block ${block.number}`)
+    }
+    return {rows: [{number: block.number, thread: threadId}]}
+}
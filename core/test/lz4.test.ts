@@ -0,0 +1,180 @@
+import assert from 'node:assert/strict'
+import {spawnSync} from 'node:child_process'
+import {randomBytes} from 'node:crypto'
+import {describe, it} from 'node:test'
+import {ClickhouseClient} from '../src/clickhouse/client'
+import {createLz4CompressStream, xxh32} from '../src/util/lz4'
+
+
+/**
+ * Frame produced by `printf 'hello hello hello hello hello\n' | lz4 -B4 --no-frame-crc`
+ */
+const CLI_FRAME = Buffer.from('04224d18604082100000006f68656c6c6f2006000050656c6c6f0a00000000', 'hex')
+
+
+async function compress(...chunks: Buffer[]): Promise<Buffer> {
+    let stream = createLz4CompressStream()
+    let output: Buffer[] = []
+    stream.on('data', chunk => output.push(chunk))
+    let end = new Promise((resolve, reject) => {
+        stream.on('end', resolve)
+        stream.on('error', reject)
+    })
+    for (let chunk of chunks) {
+        stream.write(chunk)
+    }
+    stream.end()
+    await end
+    return Buffer.concat(output)
+}
+
+
+/**
+ * Straightforward LZ4 frame decoder following the format spec,
+ * which also checks the end-of-block restrictions the compressor must respect.
+ */
+function decodeFrame(frame: Buffer): Buffer {
+    assert.equal(frame.readUInt32LE(0), 0x184D2204, 'magic number')
+    let flg = frame[4]
+    assert.equal(flg >> 6, 1, 'frame version')
+    assert.equal(flg & 0x09, 0, 'content size and dictionary id are not expected')
+    assert.equal(frame[6], (xxh32(frame.subarray(4, 6)) >>> 8) & 0xff, 'header checksum')
+    let blockChecksum = (flg & 0x10) != 0
+    let contentChecksum = (flg & 0x04) != 0
+
+    let out: number[] = []
+    let pos = 7
+    while (true) {
+        let size = frame.readUInt32LE(pos)
+        pos += 4
+        if (size == 0) break
+        let data = frame.subarray(pos, pos + (size & 0x7fffffff))
+        assert.equal(data.length, size & 0x7fffffff, 'truncated block')
+        pos += data.length
+        if (size & 0x80000000) {
+            for (let b of data) out.push(b)
+        } else {
+            decodeBlock(data, out)
+        }
+        if (blockChecksum) pos += 4
+    }
+    if (contentChecksum) pos += 4
+    assert.equal(pos, frame.length, 'trailing data after end mark')
+    return Buffer.from(out)
+}
+
+
+function decodeBlock(block: Buffer, out: number[]): void {
+    let blockStart = out.length
+    let lastMatchStart = -1
+    let lastMatchEnd = blockStart
+    let i = 0
+    while (true) {
+        let token = block[i++]
+        let literals = token >> 4
+        if (literals == 15) {
+            let b: number
+            do {
+                b = block[i++]
+                literals += b
+            } while (b == 255)
+        }
+        for (let k = 0; k < literals; k++) {
+            out.push(block[i++])
+        }
+        if (i >= block.length) break
+
+        let offset = block.readUInt16LE(i)
+        i += 2
+        assert.ok(offset > 0 && offset <= out.length - blockStart, 'invalid match offset')
+        let matchLength = token & 15
+        if (matchLength == 15) {
+            let b: number
+            do {
+                b = block[i++]
+                matchLength += b
+            } while (b == 255)
+        }
+        matchLength += 4
+        lastMatchStart = out.length
+        let from = out.length - offset
+        for (let k = 0; k < matchLength; k++) {
+            out.push(out[from + k])
+        }
+        lastMatchEnd = out.length
+    }
+    assert.equal(i, block.length, 'block overrun')
+    if (lastMatchStart >= 0) {
+        assert.ok(out.length - lastMatchEnd >= 5, 'last 5 bytes must be literals')
+        assert.ok(out.length - lastMatchStart >= 12, 'last match must start 12 bytes before the block end')
+    }
+}
+
+
+function decodeWithCli(frame: Buffer): Buffer | undefined {
+    let res = spawnSync('lz4', ['-d', '-c'], {input: frame})
+    if (res.error) return undefined
+    assert.equal(res.status, 0, res.stderr.toString())
+    return res.stdout
+}
+
+
+describe('lz4', () => {
+    it('computes xxHash32', () => {
+        assert.equal(xxh32(Buffer.from('')), 0x02CC5D05)
+        assert.equal(xxh32(Buffer.from('a')), 0x550D7456)
+        assert.equal(xxh32(Buffer.from('abc')), 0x32D153FF)
+    })
+
+    it('reference decoder understands frames of lz4(1)', () => {
+        assert.equal(decodeFrame(CLI_FRAME).toString(), 'hello hello hello hello hello\n')
+    })
+
+    it('writes the same frame header as lz4(1)', async () => {
+        let frame = await compress(Buffer.from('hello hello hello hello hello\n'))
+        assert.deepEqual(frame.subarray(0, 7), CLI_FRAME.subarray(0, 7))
+    })
+
+    let inputs: [string, Buffer[]][] = [
+        ['empty input', []],
+        ['short input', [Buffer.from('abc')]],
+        ['repetitive text', [Buffer.from('block_number,block_hash,amount\n'.repeat(5000))]],
+        ['long runs', [Buffer.alloc(1000, 'a'), Buffer.alloc(70000, 0), Buffer.from('end of data')]],
+        ['incompressible data', [randomBytes(100_000)]],
+        ['many small chunks', Array.from({length: 3000}, (_, i) => Buffer.from(`{"row":${i % 37}}\n`))]
+    ]
+
+    for (let [name, chunks] of inputs) {
+        it(`round-trips ${name}`, async () => {
+            let input = Buffer.concat(chunks)
+            let frame = await compress(...chunks)
+            assert.deepEqual(decodeFrame(frame), input)
+            let cli = decodeWithCli(frame)
+            if (cli) {
+                assert.deepEqual(cli, input)
+            }
+        })
+    }
+})
+
+
+describe('lz4 insert', {skip: !process.env.CLICKHOUSE_URL}, () => {
+    it('is accepted by ClickHouse', async () => {
+        let clickhouse = new ClickhouseClient(process.env.CLICKHOUSE_URL!)
+        let table = `lz4_insert_test_${Date.now()}`
+        await clickhouse.command(`CREATE TABLE ${table} (n UInt32, s String) ENGINE = Memory`)
+        try {
+            let upload = clickhouse.insert({table, format: 'JSONEachRow', compression: 'lz4'})
+            for (let n = 0; n < 10_000; n++) {
+                upload.input.write(JSON.stringify({n, s: `row ${n % 10}`}) + '\n')
+            }
+            upload.input.end()
+            await upload.result()
+
+            let res = await clickhouse.query(`SELECT count() AS count, sum(n) AS sum FROM ${table}`)
+            assert.deepEqual(res.data, [{count: '10000', sum: String(10_000 * 9_999 / 2)}])
+        } finally {
+            await clickhouse.command(`DROP TABLE ${table}`)
+        }
+    })
+})
@@ -0,0 +1,71 @@
+import assert from 'node:assert/strict'
+import * as path from 'node:path'
+import {describe, it} from 'node:test'
+import {MapWorkerError, MapWorkerPool, MapWorkersOptions} from '../src/map-workers'
+import type {map, TestBlock} from './fixtures/map-blocks'
+
+
+type Result = Awaited<ReturnType<typeof map>>
+
+
+const MODULE = path.join(__dirname, 'fixtures/map-blocks.js')
+
+
+async function withPool(options: Partial<MapWorkersOptions>, test: (pool: MapWorkerPool<TestBlock, Result>) => Promise<void>): Promise<void> {
+    let pool = new MapWorkerPool<TestBlock, Result>({module: MODULE, threads: 2, ...options})
+    try {
+        await test(pool)
+    } finally {
+        await pool.close()
+    }
+}
+
+
+describe('MapWorkerPool', () => {
+    it('delivers results in the order of blocks, while workers complete them out of order', () => withPool({}, async pool => {
+        let completed: number[] = []
+        let results = await Promise.all(
+            [1, 2, 3, 4, 5, 6].map(number => pool.map({number, delay: 60 - number * 10}).then(res => {
+                completed.push(number)
+                return res
+            }))
+        )
+        assert.deepEqual(results.map(r => r.rows[0].number), [1, 2, 3, 4, 5, 6])
+        assert.notDeepEqual(completed, [1, 2, 3, 4, 5, 6])
+        assert.equal(new Set(results.map(r => r.rows[0].thread)).size, 2)
+    }))
+
+    it('rejects a failed block with MapWorkerError and keeps mapping others', () => withPool({}, async pool => {
+        let failed = pool.map({number: 1, fail: true})
+        let ok = pool.map({number: 2})
+        await assert.rejects(failed, (err: unknown) => {
+            assert(err instanceof MapWorkerError)
+            assert.equal(err.name, 'MapWorkerError')
+            assert.equal(err.message, 'failed to map block 1')
+            assert.match(err.workerStack!, /map-blocks/)
+            return true
+        })
+        assert.equal((await ok).rows[0].number, 2)
+    }))
+
+    it('rejects pending blocks of a crashed worker and the following ones', () => withPool({threads: 1}, async pool => {
+        let crashed = pool.map({number: 1, exit: 3})
+        let pending = pool.map({number: 2, delay: 1000})
+        await assert.rejects(crashed, new MapWorkerError('map worker exited with code 3'))
+        await assert.rejects(pending, new MapWorkerError('map worker exited with code 3'))
+        await assert.rejects(pool.map({number: 3}), MapWorkerError)
+    }))
+
+    it('reports a missing mapping function', () => withPool({threads: 1, export: 'mapBlock'}, async pool => {
+        await assert.rejects(pool.map({number: 1}), /does not export 'mapBlock' function/)
+    }))
+
+    it('rejects pending blocks on close and refuses new ones', async () => {
+        let pool = new MapWorkerPool<TestBlock, Result>({module: MODULE, threads: 1})
+        let pending = pool.map({number: 1, delay: 1000})
+        await pool.close()
+        await assert.rejects(pending, new MapWorkerError('worker pool was closed'))
+        assert.throws(() => pool.map({number: 2}), /worker pool is closed/)
+        await pool.close()
+    })
+})
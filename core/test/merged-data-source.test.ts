@@ -0,0 +1,122 @@
+import assert from 'node:assert/strict'
+import {describe, it} from 'node:test'
+import type {DataBatch, DataSource} from '../src/clickhouse-processor'
+import {BlockBase, BlockRef, isForkException} from '../src/common'
+import {MergedDataSource} from '../src/merged-data-source'
+import {PortalDataSource} from '../src/portal/data-source'
+import {MockChain, MockPortal, serveMockPortal} from '../src/portal/mock-portal'
+
+
+interface TestBlock extends BlockBase {
+    transactions?: object[]
+    logs?: object[]
+}
+
+
+class ArraySource implements DataSource<TestBlock> {
+    constructor(private batches: TestBlock[][]) {}
+
+    async *createDataStream(_afterBlock?: BlockRef): AsyncIterable<DataBatch<TestBlock>> {
+        for (let blocks of this.batches) {
+            yield {blocks}
+        }
+    }
+}
+
+
+function header(number: number) {
+    return {number, hash: `0x${number}`, parentHash: `0x${number - 1}`}
+}
+
+
+async function collect(source: DataSource<TestBlock>): Promise<TestBlock[]> {
+    let blocks: TestBlock[] = []
+    for await (let batch of source.createDataStream()) {
+        blocks.push(...batch.blocks)
+    }
+    return blocks
+}
+
+
+describe('MergedDataSource', () => {
+    it('joins blocks of all sources in block order', async () => {
+        let a = new ArraySource([
+            [{header: header(1), logs: [{logIndex: 0}]}],
+            [{header: header(3), logs: [{logIndex: 1}]}]
+        ])
+        let b = new ArraySource([
+            [{header: header(2), transactions: [{transactionIndex: 0}]}, {header: header(3)}]
+        ])
+
+        let blocks = await collect(new MergedDataSource(a, b))
+        assert.deepEqual(blocks.map(b => b.header.number), [1, 2, 3])
+        assert.deepEqual(blocks[2].logs, [{logIndex: 1}])
+    })
+
+    it('deduplicates and orders items returned by several sources', async () => {
+        let a = new ArraySource([[{
+            header: header(1),
+            transactions: [{transactionIndex: 2, hash: '0xb'}],
+            logs: [
+                {transactionIndex: 2, logIndex: 5, address: '0x1'}
+            ]
+        }]])
+        let b = new ArraySource([[{
+            header: header(1),
+            transactions: [{transactionIndex: 0, from: '0xf'}, {transactionIndex: 2, from: '0xe'}],
+            logs: [
+                {transactionIndex: 0, logIndex: 1},
+                {transactionIndex: 2, logIndex: 5, data: '0x'}
+            ]
+        }]])
+
+        let [block] = await collect(new MergedDataSource(a, b))
+        assert.deepEqual(block.transactions, [
+            {transactionIndex: 0, from: '0xf'},
+            {transactionIndex: 2, hash: '0xb', from: '0xe'}
+        ])
+        assert.deepEqual(block.logs, [
+            {transactionIndex: 0, logIndex: 1},
+            {transactionIndex: 2, logIndex: 5, address: '0x1', data: '0x'}
+        ])
+    })
+
+    it('concatenates items without identity fields', async () => {
+        let a = new ArraySource([[{header: header(1), logs: [{data: '0x1'}]}]])
+        let b = new ArraySource([[{header: header(1), logs: [{data: '0x1'}]}]])
+        let [block] = await collect(new MergedDataSource(a, b))
+        assert.deepEqual(block.logs, [{data: '0x1'}, {data: '0x1'}])
+    })
+
+    it('fails when sources disagree on a block hash', async () => {
+        let a = new ArraySource([[{header: header(1)}]])
+        let b = new ArraySource([[{header: {...header(1), hash: '0xother'}}]])
+        await assert.rejects(collect(new MergedDataSource(a, b)), /disagree on block 1/)
+    })
+
+    it('reports forks of the merged portal streams', async () => {
+        let chain = new MockChain().addBlocks(10)
+        let server = await serveMockPortal(new MockPortal(chain, {previousBlocks: 3, headResponseDelay: 0}))
+        try {
+            let head = chain.getBlock(10)!.header
+            chain.reorg(2)
+            let source = new MergedDataSource(
+                new PortalDataSource(server.url, {type: 'evm', fromBlock: 1, logs: [{}]}),
+                new PortalDataSource(server.url, {type: 'evm', fromBlock: 1, transactions: [{}]})
+            )
+            let abort = new AbortController()
+            try {
+                await assert.rejects(
+                    async () => {
+                        for await (let _batch of source.createDataStream(head, abort.signal)) {}
+                    },
+                    err => isForkException(err) && err.previousBlocks.map(b => b.number).join() == '8,9,10'
+                )
+            } finally {
+                abort.abort()
+            }
+        } finally {
+            await server.close()
+        }
+    })
+})
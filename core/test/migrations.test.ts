@@ -0,0 +1,103 @@
+import assert from 'node:assert/strict'
+import {mkdtemp, rm, writeFile} from 'node:fs/promises'
+import {tmpdir} from 'node:os'
+import * as path from 'node:path'
+import {after, before, describe, it} from 'node:test'
+import type {ClickhouseClient, QueryResponse} from '../src/clickhouse/client'
+import {MIGRATIONS_TABLE, Migrator, splitStatements} from '../src/clickhouse/migrations'
+
+
+/**
+ * Records commands and answers queries of {@link Migrator} from the given list of applied versions.
+ * The bookkeeping table exists only when the list is given.
+ */
+class FakeMigrationsDb {
+    public commands: string[] = []
+
+    constructor(private applied?: number[]) {}
+
+    get client(): ClickhouseClient {
+        return this as unknown as ClickhouseClient
+    }
+
+    async query<R>(sql: string, params?: Record<string, string>): Promise<QueryResponse<R>> {
+        if (sql.includes('system.tables')) {
+            assert.equal(params?.table, MIGRATIONS_TABLE)
+            return {data: (this.applied ? [{name: MIGRATIONS_TABLE}] : []) as R[]}
+        }
+        assert(this.applied, `query of a missing table: ${sql}`)
+        return {data: this.applied.map(v => ({version: String(v), name: `m${v}`, timestamp: '0'})) as R[]}
+    }
+
+    async command(sql: string): Promise<void> {
+        this.commands.push(sql)
+    }
+}
+
+
+describe('splitStatements', () => {
+    it('splits statements by semicolons and skips empty ones', () => {
+        assert.deepEqual(splitStatements('SELECT 1;;\n  ; SELECT 2\n;\n'), ['SELECT 1', 'SELECT 2'])
+    })
+
+    it('ignores semicolons in comments', () => {
+        let sql = '-- drop; it\nSELECT 1; /* a; b */ SELECT 2 -- trailing;\n'
+        assert.deepEqual(splitStatements(sql), ['-- drop; it\nSELECT 1', '/* a; b */ SELECT 2 -- trailing;'])
+    })
+
+    it('does not produce statements of comments only', () => {
+        assert.deepEqual(splitStatements('-- header\n/* ; */\n'), [])
+    })
+
+    it('ignores semicolons in quoted strings and identifiers', () => {
+        assert.deepEqual(
+            splitStatements(`SELECT 'a;b', "c;d", \`e;f\`; SELECT 2`),
+            [`SELECT 'a;b', "c;d", \`e;f\``, 'SELECT 2']
+        )
+    })
+
+    it('handles escaped and doubled quotes', () => {
+        assert.deepEqual(
+            splitStatements(`SELECT 'it\\'s;', 'it''s;'; SELECT '\\\\'; SELECT 3`),
+            [`SELECT 'it\\'s;', 'it''s;'`, `SELECT '\\\\'`, 'SELECT 3']
+        )
+    })
+
+    it('rejects unterminated quotes', () => {
+        assert.throws(() => splitStatements(`SELECT 1; SELECT 'a;`), /unterminated ' quote at position 17/)
+    })
+})
+
+
+describe('Migrator', () => {
+    let dir: string
+
+    before(async () => {
+        dir = await mkdtemp(path.join(tmpdir(), 'migrations-'))
+        await writeFile(path.join(dir, '1_init.up.sql'), 'CREATE TABLE a (x UInt8) ENGINE = Memory')
+        await writeFile(path.join(dir, '2_more.up.sql'), 'CREATE TABLE b (x UInt8) ENGINE = Memory;\nCREATE TABLE c (x UInt8) ENGINE = Memory;')
+    })
+
+    after(async () => {
+        await rm(dir, {recursive: true})
+    })
+
+    it('lists applied migrations of a missing database without creating it', async () => {
+        let db = new FakeMigrationsDb()
+        let migrator = new Migrator(db.client, 'db', dir)
+        assert.deepEqual(await migrator.getApplied(), [])
+        assert.deepEqual((await migrator.getPending()).map(m => m.version), [1, 2])
+        assert.deepEqual(db.commands, [])
+    })
+
+    it('applies pending migrations statement by statement', async () => {
+        let db = new FakeMigrationsDb([1])
+        let applied = await new Migrator(db.client, 'db', dir).apply()
+        assert.deepEqual(applied.map(m => m.version), [2])
+        assert.deepEqual(db.commands.slice(2), [
+            'CREATE TABLE b (x UInt8) ENGINE = Memory',
+            'CREATE TABLE c (x UInt8) ENGINE = Memory',
+            `INSERT INTO db.${MIGRATIONS_TABLE} (version, name) VALUES (2, 'more')`
+        ])
+    })
+})
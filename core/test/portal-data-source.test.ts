@@ -0,0 +1,33 @@
+import assert from 'node:assert/strict'
+import {describe, it} from 'node:test'
+import {PortalDataSource} from '../src/portal/data-source'
+import {MockChain, MockPortal, serveMockPortal} from '../src/portal/mock-portal'
+
+
+describe('PortalDataSource', () => {
+    it('terminates with the abort reason, when aborted while waiting at the chain head', async () => {
+        let chain = new MockChain().addBlocks(10)
+        let server = await serveMockPortal(new MockPortal(chain))
+        try {
+            let source = new PortalDataSource(server.url, {type: 'evm', fromBlock: 1})
+            let shutdown = new AbortController()
+            let blocks = 0
+            await assert.rejects(async () => {
+                for await (let batch of source.createDataStream(undefined, shutdown.signal)) {
+                    blocks += batch.blocks.length
+                    if (blocks == 10) {
+                        // the stream is idle now, polling the head of the chain
+                        setTimeout(() => shutdown.abort(), 100)
+                    }
+                }
+            }, (err: unknown) => {
+                assert.equal(err, shutdown.signal.reason)
+                assert.equal((err as Error).name, 'AbortError')
+                return true
+            })
+            assert.equal(blocks, 10)
+        } finally {
+            await server.close()
+        }
+    })
+})
@@ -0,0 +1,33 @@
+import assert from 'node:assert/strict'
+import {describe, it} from 'node:test'
+import {Registry} from '../src/prometheus'
+
+
+describe('prometheus registry', () => {
+    it('renders metrics in the text exposition format', () => {
+        let registry = new Registry()
+        registry.counter('rows_total', 'Inserted rows').inc(3, {table: 'a"b'})
+        registry.gauge('head', 'Head block').set(10)
+        let latency = registry.histogram('latency_seconds', 'Insert latency', [0.1, 1])
+        latency.observe(0.5)
+        latency.observe(2)
+        assert.equal(registry.counter('rows_total', 'Inserted rows'), registry.counter('rows_total', 'Inserted rows'))
+
+        assert.equal(registry.render(), [
+            '# HELP rows_total Inserted rows',
+            '# TYPE rows_total counter',
+            'rows_total{table="a\\"b"} 3',
+            '# HELP head Head block',
+            '# TYPE head gauge',
+            'head 10',
+            '# HELP latency_seconds Insert latency',
+            '# TYPE latency_seconds histogram',
+            'latency_seconds_bucket{le="0.1"} 0',
+            'latency_seconds_bucket{le="1"} 1',
+            'latency_seconds_bucket{le="+Inf"} 2',
+            'latency_seconds_sum 2.5',
+            'latency_seconds_count 2',
+            ''
+        ].join('\n'))
+    })
+})
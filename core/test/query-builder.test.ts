@@ -0,0 +1,50 @@
+import assert from 'node:assert/strict'
+import {describe, it} from 'node:test'
+import {evm, QueryBuilderError, solana} from '../src/portal/query-builder'
+
+
+describe('EvmQueryBuilder', () => {
+    it('merges field selections and requests', () => {
+        let query = evm()
+            .fromBlock(10)
+            .addLog({address: ['0xa'], transaction: true})
+            .addLog({address: ['0xb']})
+            .fields({log: {data: true}})
+            .fields({log: {topics: true}, transaction: {hash: true}})
+            .build()
+
+        assert.deepEqual(query, {
+            type: 'evm',
+            fromBlock: 10,
+            logs: [{address: ['0xa'], transaction: true}, {address: ['0xb']}],
+            fields: {log: {data: true, topics: true}, transaction: {hash: true}}
+        })
+    })
+
+    it('rejects fields of items, that are never requested', () => {
+        let builder = evm().addLog({address: ['0xa']}).fields({transaction: {hash: true}})
+        // @ts-expect-error transactions are not requested
+        assert.throws(() => builder.build(), QueryBuilderError)
+        assert.doesNotThrow(() => builder.addLog({address: ['0xb'], transaction: true}).build())
+    })
+
+    it('rejects state diff values without keys', () => {
+        let builder = evm().addStateDiff({}).fields({stateDiff: {next: true}})
+        // @ts-expect-error key field is required
+        assert.throws(() => builder.build(), /stateDiff\.key/)
+        assert.doesNotThrow(() => builder.fields({stateDiff: {key: true}}).build())
+    })
+})
+
+
+describe('SolanaQueryBuilder', () => {
+    it('rejects fields of items, that are never requested', () => {
+        let builder = solana().addInstruction({programId: ['p']}).fields({
+            instruction: {data: true},
+            tokenBalance: {account: true}
+        })
+        // @ts-expect-error token balances are not requested
+        assert.throws(() => builder.build(), /tokenBalance fields are selected/)
+        assert.doesNotThrow(() => builder.addInstruction({transactionTokenBalances: true}).build())
+    })
+})
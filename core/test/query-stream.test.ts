@@ -0,0 +1,83 @@
+import {NAT, object, STRING} from '@subsquid/util-internal-validation'
+import assert from 'node:assert/strict'
+import {describe, it} from 'node:test'
+import type {PortalApi, PortalStreamResponse} from '../src/portal/core/portal-api'
+import {createQueryStream, StreamOptions, StreamStallError} from '../src/portal/core/query-stream/internal'
+
+
+const BlockSchema = object({
+    header: object({
+        number: NAT,
+        hash: STRING,
+        parentHash: STRING
+    })
+})
+
+
+/**
+ * Portal, which stalls the given number of requests before serving blocks `1..2`
+ */
+class StallingPortal implements PortalApi {
+    public requests = 0
+
+    constructor(private stalls: number) {}
+
+    async stream(_query: object, abortSignal: AbortSignal): Promise<PortalStreamResponse> {
+        this.requests += 1
+        if (this.requests <= this.stalls) {
+            return {status: 200, data: stall(abortSignal)}
+        }
+        let lines = [1, 2].map(number => JSON.stringify({header: {number, hash: `0x${number}`, parentHash: `0x${number - 1}`}}) + '\n')
+        return {status: 200, data: serve(Buffer.from(lines.join('')))}
+    }
+}
+
+
+async function* serve(data: Uint8Array): AsyncIterable<Uint8Array> {
+    yield data
+}
+
+
+async function* stall(abortSignal: AbortSignal): AsyncIterable<Uint8Array> {
+    await new Promise(resolve => abortSignal.addEventListener('abort', resolve, {once: true}))
+    throw abortSignal.reason
+}
+
+
+async function collect(api: PortalApi, options: StreamOptions): Promise<number[]> {
+    let stream = createQueryStream(api, {fromBlock: 1, toBlock: 2}, BlockSchema, {
+        streamIdleTimeout: 10,
+        retrySchedule: [0],
+        ...options
+    })
+    let blocks: number[] = []
+    for await (let batch of stream) {
+        blocks.push(...batch.blocks.map(b => b.header.number))
+    }
+    return blocks
+}
+
+
+describe('query stream', () => {
+    it('retries stalled requests, when other errors are not retried', async () => {
+        let api = new StallingPortal(2)
+        assert.deepEqual(await collect(api, {}), [1, 2])
+        assert.equal(api.requests, 3)
+    })
+
+    it('gives up after stallRetryAttempts stalls', async () => {
+        let api = new StallingPortal(3)
+        await assert.rejects(collect(api, {stallRetryAttempts: 2}), StreamStallError)
+        assert.equal(api.requests, 3)
+    })
+
+    it('follows the retry schedule and keeps its last pause', async () => {
+        let api = new StallingPortal(4)
+        let pauses: number[] = []
+        await collect(api, {
+            retrySchedule: [1, 2, 3],
+            onRetry: (_err, _attempt, pause) => pauses.push(pause)
+        })
+        assert.deepEqual(pauses, [1, 2, 3, 3])
+    })
+})
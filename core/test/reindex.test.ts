@@ -0,0 +1,147 @@
+import assert from 'node:assert/strict'
+import {Writable} from 'node:stream'
+import {describe, it} from 'node:test'
+import type {ClickhouseClient, InsertArgs} from '../src/clickhouse/client'
+import type {Upload} from '../src/clickhouse/upload'
+import {BlockWriter} from '../src/clickhouse/writer'
+import type {DataSource} from '../src/clickhouse-processor'
+import {pickTables, prepareReindex} from '../src/reindex'
+
+
+interface Row {
+    block_number: number
+    value: string
+}
+
+
+/**
+ * In-memory tables, that understand block range deletions and `JSONEachRow` inserts.
+ * Columns added by the writer (e.g. `block_hash`) are not stored.
+ */
+class FakeTables {
+    public commands: string[] = []
+    public inserted: string[] = []
+
+    constructor(public tables: Record<string, Row[]>) {}
+
+    get client(): ClickhouseClient {
+        return this as unknown as ClickhouseClient
+    }
+
+    async command(sql: string): Promise<void> {
+        this.commands.push(sql)
+        let m = /^DELETE FROM db\.(\w+) WHERE block_number >= (\d+) AND block_number <= (\d+)$/.exec(sql)
+        assert(m, `unexpected command: ${sql}`)
+        let [from, to] = [Number(m[2]), Number(m[3])]
+        this.tables[m[1]] = this.tables[m[1]].filter(row => row.block_number < from || row.block_number > to)
+    }
+
+    insert(args: InsertArgs): Upload<void> {
+        let table = args.table.replace(/^db\./, '')
+        this.inserted.push(table)
+        let rows: Row[] = []
+        let input = new Writable({
+            write(chunk: Buffer, _encoding, cb) {
+                for (let line of chunk.toString().split('\n')) {
+                    if (line == '') continue
+                    let {block_number, value} = JSON.parse(line)
+                    rows.push({block_number, value})
+                }
+                cb()
+            }
+        })
+        let result = new Promise<void>(resolve => {
+            input.on('finish', () => {
+                this.tables[table] = (this.tables[table] ?? []).concat(rows)
+                resolve()
+            })
+        })
+        return {id: 0, input, result: () => result, abort() {}, abortOnSignal() {}}
+    }
+}
+
+
+const source: DataSource<unknown> = {
+    createDataStream() {
+        throw new Error('not implemented')
+    },
+    createRangeStream() {
+        throw new Error('not implemented')
+    }
+}
+
+
+function rows(value: string, ...blocks: number[]): Row[] {
+    return blocks.map(block_number => ({block_number, value}))
+}
+
+
+function byBlock(rows: Row[]): Row[] {
+    return rows.slice().sort((a, b) => a.block_number - b.block_number)
+}
+
+
+describe('re-index', () => {
+    const head = {number: 10, hash: '0x10'}
+
+    it('deletes the range of the selected tables and re-inserts only them', async () => {
+        let db = new FakeTables({
+            transfers: rows('old', 1, 3, 4, 5, 6),
+            balances: rows('old', 3, 4)
+        })
+
+        let tables = await prepareReindex(db.client, 'db', ['transfers', 'balances'], head, source, {
+            fromBlock: 3,
+            toBlock: 5,
+            tables: ['transfers']
+        })
+        assert.deepEqual(tables, ['transfers'])
+        assert.deepEqual(db.tables.transfers, rows('old', 1, 6))
+
+        let writer = new BlockWriter(db.client, 'db', {transfers: {}}, {skipBlocksTable: true})
+        for (let number = 3; number <= 5; number++) {
+            writer.push({
+                header: {number, hash: `0x${number}`, parentHash: `0x${number - 1}`},
+                tables: pickTables({
+                    transfers: rows('new', number),
+                    balances: rows('new', number)
+                }, tables)
+            })
+        }
+        await writer.flush()
+
+        assert.deepEqual(byBlock(db.tables.transfers), [
+            ...rows('old', 1),
+            ...rows('new', 3, 4, 5),
+            ...rows('old', 6)
+        ])
+        assert.deepEqual(db.tables.balances, rows('old', 3, 4))
+        assert(!db.inserted.includes('blocks'), 'blocks table must not be written')
+    })
+
+    it('re-indexes all tables by default', async () => {
+        let db = new FakeTables({transfers: [], balances: []})
+        let tables = await prepareReindex(db.client, 'db', ['transfers', 'balances'], head, source, {fromBlock: 1, toBlock: 10})
+        assert.deepEqual(tables, ['transfers', 'balances'])
+        assert.deepEqual(db.commands, [
+            'DELETE FROM db.transfers WHERE block_number >= 1 AND block_number <= 10',
+            'DELETE FROM db.balances WHERE block_number >= 1 AND block_number <= 10'
+        ])
+    })
+
+    it('rejects invalid ranges and tables without deleting anything', async () => {
+        let db = new FakeTables({transfers: []})
+        let reindex = (fromBlock: number, toBlock: number, tables?: string[]) =>
+            prepareReindex(db.client, 'db', ['transfers'], head, source, {fromBlock, toBlock, tables})
+
+        await assert.rejects(reindex(5, 4), /invalid re-index range: 5 > 4/)
+        await assert.rejects(reindex(5, 11), /goes beyond the processing head 10/)
+        await assert.rejects(reindex(1, 2, []), /no tables were selected/)
+        await assert.rejects(reindex(1, 2, ['swaps']), /table 'swaps' selected for re-indexing is not defined/)
+        await assert.rejects(
+            prepareReindex(db.client, 'db', ['transfers'], head, {createDataStream: source.createDataStream}, {fromBlock: 1, toBlock: 2}),
+            /data source does not support re-indexing/
+        )
+        assert.deepEqual(db.commands, [])
+    })
+})
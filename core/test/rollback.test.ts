@@ -0,0 +1,112 @@
+import assert from 'node:assert/strict'
+import {after, before, describe, it} from 'node:test'
+import {BlockRef, ForkException, isForkException} from '../src/common'
+import {PortalDataSource} from '../src/portal/data-source'
+import {MockChain, MockPortal, MockPortalServer, serveMockPortal} from '../src/portal/mock-portal'
+import {getHead, rollbackFork} from '../src/rollback'
+import {FakeClickhouse} from './fake-clickhouse'
+
+
+describe('fork rollback', () => {
+    let portal: MockPortal
+    let server: MockPortalServer
+
+    before(async () => {
+        portal = new MockPortal(new MockChain(), {previousBlocks: 3, headResponseDelay: 0})
+        server = await serveMockPortal(portal)
+    })
+
+    after(() => server.close())
+
+    function setUp(length: number): FakeClickhouse {
+        portal.chain.reorg(portal.chain.head ? portal.chain.head.header.number : 0, length)
+        let stored: BlockRef[] = []
+        for (let i = 1; i <= length; i++) {
+            stored.push(portal.chain.getBlock(i)!.header)
+        }
+        return new FakeClickhouse(stored.map(b => ({number: b.number, hash: b.hash})))
+    }
+
+    /**
+     * Stream from the given head until the first non-empty batch or a fork
+     */
+    async function resume(head: BlockRef | undefined): Promise<ForkException | number> {
+        let source = new PortalDataSource(server.url, {type: 'evm', fromBlock: 1})
+        let abort = new AbortController()
+        try {
+            for await (let batch of source.createDataStream(head, abort.signal)) {
+                if (batch.blocks.length > 0) return batch.blocks[0].header.number
+            }
+            throw new Error('stream ended unexpectedly')
+        } catch(err: any) {
+            if (isForkException(err)) return err
+            throw err
+        } finally {
+            abort.abort()
+        }
+    }
+
+    it('finds the common ancestor among previous blocks of a 409 response', async () => {
+        let db = setUp(20)
+        portal.chain.reorg(2)
+
+        let head = await getHead(db.client, 'db')
+        assert.deepEqual(head, {number: 20, hash: db.blocks[19].hash})
+
+        let fork = await resume(head)
+        assert.ok(isForkException(fork))
+        assert.deepEqual(fork.previousBlocks.map(b => b.number), [18, 19, 20])
+
+        let ancestor = await rollbackFork(db.client, 'db', ['transfers'], fork)
+        assert.deepEqual(ancestor, {number: 18, hash: portal.chain.getBlock(18)!.header.hash})
+        assert.deepEqual(db.commands, [
+            'DELETE FROM db.blocks WHERE number > 18',
+            'DELETE FROM db.transfers WHERE block_number > 18'
+        ])
+
+        assert.equal(await resume(ancestor), 19)
+    })
+
+    it('detects a fork, that made the chain shorter than the stored one', async () => {
+        let db = setUp(20)
+        portal.chain.reorg(5, 2)
+
+        let fork = await resume(await getHead(db.client, 'db'))
+        assert.ok(isForkException(fork))
+        assert.deepEqual(fork.previousBlocks.map(b => b.number), [15, 16, 17])
+
+        let ancestor = await rollbackFork(db.client, 'db', [], fork)
+        assert.deepEqual(ancestor, {number: 15, hash: portal.chain.getBlock(15)!.header.hash})
+        assert.equal(await resume(ancestor), 16)
+    })
+
+    it('rolls back below previous blocks, when the fork is deeper', async () => {
+        let db = setUp(20)
+        portal.chain.reorg(5)
+
+        let head = await getHead(db.client, 'db')
+        let rollbacks = 0
+        while (true) {
+            let result = await resume(head)
+            if (!isForkException(result)) {
+                assert.equal(result, head!.number + 1)
+                break
+            }
+            head = await rollbackFork(db.client, 'db', [], result)
+            assert.equal(typeof head?.number, 'number')
+            rollbacks += 1
+        }
+
+        assert.deepEqual(head, {number: 15, hash: portal.chain.getBlock(15)!.header.hash})
+        assert.equal(rollbacks, 2)
+        assert.equal(portal.requests.at(-1)!.fromBlock, 16)
+    })
+
+    it('refuses to roll back a fork without previous blocks', async () => {
+        let db = setUp(20)
+        let fork = new ForkException(21, '0x20', [{number: 20, hash: '0x20'}])
+        fork.previousBlocks = []
+        await assert.rejects(rollbackFork(db.client, 'db', ['transfers'], fork), /does not list any previous blocks/)
+        assert.deepEqual(db.commands, [])
+    })
+})
@@ -0,0 +1,139 @@
+import assert from 'node:assert/strict'
+import {describe, it} from 'node:test'
+import {inspect} from 'node:util'
+import {ClickhouseClient} from '../src/clickhouse/client'
+import {createRowBinaryEncoder} from '../src/clickhouse/row-binary'
+
+
+function encode(type: string, value: unknown): string {
+    let encoder = createRowBinaryEncoder([{name: 'value', type}])
+    return Buffer.from(encoder({value})).toString('hex')
+}
+
+
+/**
+ * Values and their `RowBinary` layouts as described in ClickHouse docs
+ */
+const CASES: [type: string, value: unknown, hex: string][] = [
+    ['UInt8', 255, 'ff'],
+    ['Bool', true, '01'],
+    ['Int8', -1, 'ff'],
+    ['UInt16', 258, '0201'],
+    ['Int16', -2, 'feff'],
+    ['UInt32', 0x01020304, '04030201'],
+    ['Int32', -1, 'ffffffff'],
+    ['UInt64', '18446744073709551615', 'ffffffffffffffff'],
+    ['Int64', -2n, 'feffffffffffffff'],
+    ['UInt128', 1n << 127n, '00'.repeat(15) + '80'],
+    ['Int128', -(1n << 127n), '00'.repeat(15) + '80'],
+    ['Int128', -1, 'ff'.repeat(16)],
+    ['UInt256', (1n << 256n) - 1n, 'ff'.repeat(32)],
+    ['UInt256', '0x0102', '0201' + '00'.repeat(30)],
+    ['Int256', -2n, 'fe' + 'ff'.repeat(31)],
+    ['Float32', 1.5, '0000c03f'],
+    ['Float64', -2, '00000000000000c0'],
+    ['String', 'ab', '026162'],
+    ['String', 'x'.repeat(300), 'ac02' + '78'.repeat(300)],
+    ['String', Buffer.from([0, 1]), '020001'],
+    ['FixedString(4)', 'ab', '61620000'],
+    ['Date', 1700000000, 'db4c'],
+    ['Date', '2023-11-14', 'db4c'],
+    ['DateTime', 1700000000, '00f15365'],
+    ['DateTime', new Date(1700000000_999), '00f15365'],
+    ['DateTime', '2023-11-14T22:13:20Z', '00f15365'],
+    ['DateTime', '2023-11-14T23:13:20+01:00', '00f15365'],
+    ['DateTime', '2023-11-14 22:13:20', '00f15365'],
+    ['DateTime(\'UTC\')', '1700000000', '00f15365'],
+    ['Nullable(UInt8)', null, '01'],
+    ['Nullable(UInt8)', undefined, '01'],
+    ['Nullable(UInt8)', 7, '0007'],
+    ['LowCardinality(String)', 'ab', '026162'],
+    ['LowCardinality(Nullable(String))', null, '01'],
+    ['LowCardinality(Nullable(String))', 'a', '000161'],
+    ['Array(UInt16)', [1, 256], '0201000001'],
+    ['Array(UInt16)', undefined, '00'],
+    ['Array(Nullable(String))', ['a', null], '0200016101'],
+    ['Array(Array(UInt8))', [[1], [2, 3]], '020101020203'],
+    ['Array(LowCardinality(String))', ['a'], '010161']
+]
+
+
+describe('RowBinary encoder', () => {
+    for (let [type, value, hex] of CASES) {
+        it(`encodes ${type} value ${inspect(value, {maxStringLength: 10, maxArrayLength: 4})}`, () => {
+            assert.equal(encode(type, value), hex)
+        })
+    }
+
+    it('encodes columns in the given order with zero values for missing ones', () => {
+        let encoder = createRowBinaryEncoder([
+            {name: 'b', type: 'UInt16'},
+            {name: 'a', type: 'String'},
+            {name: 'c', type: 'UInt32'}
+        ])
+        assert.equal(Buffer.from(encoder({a: 'x', b: 1})).toString('hex'), '0100' + '0178' + '00000000')
+    })
+
+    it('rejects values out of range of the column type', () => {
+        assert.throws(() => encode('UInt8', 256), /column 'value' \(UInt8\): 256 is out of range/)
+        assert.throws(() => encode('Int64', 1n << 63n), /out of range/)
+        assert.throws(() => encode('UInt32', 1.5), /not an integer/)
+        assert.throws(() => encode('FixedString(2)', 'abc'), /longer than 2 bytes/)
+        assert.throws(() => encode('DateTime', 'yesterday'), /not a timestamp/)
+    })
+
+    it('rejects unsupported types upfront', () => {
+        assert.throws(
+            () => createRowBinaryEncoder([{name: 'm', type: 'Map(String, UInt8)'}]),
+            /can't encode column 'm' in RowBinary format: type Map\(String, UInt8\) is not supported/
+        )
+    })
+})
+
+
+describe('RowBinary insert', {skip: !process.env.CLICKHOUSE_URL}, () => {
+    it('is read back by ClickHouse', async () => {
+        let clickhouse = new ClickhouseClient(process.env.CLICKHOUSE_URL!)
+        let table = `row_binary_test_${Date.now()}`
+        let columns = [
+            {name: 'u64', type: 'UInt64'},
+            {name: 'i128', type: 'Int128'},
+            {name: 'u256', type: 'UInt256'},
+            {name: 'ts', type: 'DateTime(\'UTC\')'},
+            {name: 'tag', type: 'LowCardinality(Nullable(String))'},
+            {name: 'list', type: 'Array(Nullable(UInt8))'}
+        ]
+        await clickhouse.command(
+            `CREATE TABLE ${table} (${columns.map(c => `${c.name} ${c.type}`).join(', ')}) ENGINE = Memory`
+        )
+        try {
+            let encoder = createRowBinaryEncoder(columns)
+            let upload = clickhouse.insert({table, format: 'RowBinary'})
+            upload.input.write(encoder({
+                u64: 1n << 63n,
+                i128: -5n,
+                u256: (1n << 200n) + 1n,
+                ts: '2023-11-14T22:13:20Z',
+                tag: null,
+                list: [1, null, 3]
+            }))
+            upload.input.end()
+            await upload.result()
+
+            let res = await clickhouse.query(
+                `SELECT toString(u64) AS u64, toString(i128) AS i128, toString(u256) AS u256, ` +
+                `toUnixTimestamp(ts) AS ts, tag, list FROM ${table}`
+            )
+            assert.deepEqual(res.data, [{
+                u64: String(1n << 63n),
+                i128: '-5',
+                u256: String((1n << 200n) + 1n),
+                ts: 1700000000,
+                tag: null,
+                list: [1, null, 3]
+            }])
+        } finally {
+            await clickhouse.command(`DROP TABLE ${table}`)
+        }
+    })
+})
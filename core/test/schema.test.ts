@@ -0,0 +1,68 @@
+import assert from 'node:assert/strict'
+import {describe, it} from 'node:test'
+import {ClickhouseClient, QueryResponse} from '../src/clickhouse/client'
+import {column, defineSchema, SchemaMismatchError, verifySchema} from '../src/clickhouse/schema'
+
+
+const schema = defineSchema({
+    tables: {
+        transfers: {
+            columns: {
+                from: column.String(),
+                to: column.String(),
+                amount: column.UInt256()
+            },
+            orderBy: ['block_number']
+        }
+    }
+})
+
+
+/**
+ * Serves `system.tables` and `system.columns` of a database created from `schema`,
+ * with columns of `transfers` table in the given order
+ */
+function createDatabase(transferColumns: string[]): ClickhouseClient {
+    let columns = schema.getColumns()
+    let tables = schema.getTables()
+    let client = {
+        async query(sql: string): Promise<QueryResponse<any>> {
+            if (sql.includes('system.tables')) {
+                let data = Object.keys(tables).map(name => ({
+                    name,
+                    engine: 'MergeTree',
+                    sorting_key: tables[name].orderBy.join(', '),
+                    partition_key: ''
+                }))
+                return {data}
+            }
+            assert.ok(sql.includes('system.columns'))
+            let data = Object.keys(columns).flatMap(table => {
+                let names = table == 'transfers' ? transferColumns : columns[table].map(c => c.name)
+                return names.map(name => ({table, name, type: columns[table].find(c => c.name == name)!.type}))
+            })
+            return {data}
+        }
+    }
+    return client as unknown as ClickhouseClient
+}
+
+
+describe('verifySchema()', () => {
+    it('accepts a matching database', async () => {
+        let db = createDatabase(['block_number', 'block_hash', 'block_timestamp', 'from', 'to', 'amount'])
+        await verifySchema(db, 'db', schema)
+    })
+
+    it('checks the order of columns', async () => {
+        let db = createDatabase(['block_number', 'block_hash', 'block_timestamp', 'to', 'from', 'amount'])
+        await assert.rejects(verifySchema(db, 'db', schema), (err: unknown) => {
+            assert.ok(err instanceof SchemaMismatchError)
+            assert.deepEqual(err.problems, [
+                `columns of table 'transfers' are ordered as (block_number, block_hash, block_timestamp, to, from, amount), ` +
+                `but (block_number, block_hash, block_timestamp, from, to, amount) was expected`
+            ])
+            return true
+        })
+    })
+})
@@ -0,0 +1,35 @@
+import assert from 'node:assert/strict'
+import {describe, it} from 'node:test'
+import {StateStore} from '../src/state'
+import {FakeClickhouse} from './fake-clickhouse'
+
+
+describe('StateStore', () => {
+    it('takes a snapshot at the first block and every snapshotInterval blocks after', () => {
+        let state = new StateStore({snapshotInterval: 10})
+        state.set('a', 1n)
+        let taken = [5, 6, 14, 15, 16, 25].filter(n => state.takeSnapshot(n) != null)
+        assert.deepEqual(taken, [5, 15, 25])
+        assert.deepEqual(state.takeSnapshot(35), [{key: '', value: ''}, {key: 'a', value: '{"$bigint":"1"}'}])
+    })
+
+    it('keeps snapshots above the finalized head and the last one below it', async () => {
+        let db = new FakeClickhouse()
+        let state = new StateStore({snapshotInterval: 10})
+        for (let n of [100, 110, 120, 130]) {
+            state.takeSnapshot(n)
+        }
+
+        await state.prune(db.client, 'db', 99)
+        await state.prune(db.client, 'db', 105)
+        await state.prune(db.client, 'db', 125)
+        await state.prune(db.client, 'db', 129)
+        await state.prune(db.client, 'db', 130)
+
+        assert.deepEqual(db.commands, [
+            'DELETE FROM db.state WHERE block_number < 100',
+            'DELETE FROM db.state WHERE block_number < 120',
+            'DELETE FROM db.state WHERE block_number < 130'
+        ])
+    })
+})
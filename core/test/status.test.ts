@@ -0,0 +1,101 @@
+import assert from 'node:assert/strict'
+import {after, before, describe, it} from 'node:test'
+import {ProcessorStatus, serveStatus, StatusReport, StatusServer} from '../src/status'
+import {FakeClickhouse} from './fake-clickhouse'
+
+
+class UnavailableClickhouse extends FakeClickhouse {
+    async query<R>(): Promise<never> {
+        throw new Error('connection refused')
+    }
+}
+
+
+describe('status server', () => {
+    let db: FakeClickhouse
+    let status: ProcessorStatus
+    let server: StatusServer
+
+    before(async () => {
+        db = new FakeClickhouse([{number: 9, hash: '0x9'}, {number: 10, hash: '0x10'}])
+        status = new ProcessorStatus(db.client, 'db', false, {maxReadyLag: 5})
+        server = await serveStatus(0, status)
+    })
+
+    after(() => server.close())
+
+    async function get(path: string): Promise<{status: number, report: StatusReport}> {
+        let res = await fetch(`http://127.0.0.1:${server.port}${path}`)
+        assert.equal(res.headers.get('content-type'), 'application/json')
+        return {status: res.status, report: await res.json() as StatusReport}
+    }
+
+    it('is not ready until the chain head is known', async () => {
+        let {status: code, report} = await get('/ready')
+        assert.equal(code, 503)
+        assert.deepEqual(report, {
+            ok: false,
+            problems: ['chain head is not known yet'],
+            head: {number: 10, hash: '0x10'},
+            lag: {}
+        })
+    })
+
+    it('reports the lag and readiness within maxReadyLag', async () => {
+        status.registerBatch({headNumber: 15})
+        let {status: code, report} = await get('/ready')
+        assert.equal(code, 200)
+        assert.deepEqual(report, {
+            ok: true,
+            problems: [],
+            head: {number: 10, hash: '0x10'},
+            chainHead: 15,
+            lag: {blocks: 5}
+        })
+
+        status.registerBatch({headNumber: 16})
+        ;({status: code, report} = await get('/ready'))
+        assert.equal(code, 503)
+        assert.deepEqual(report.problems, ['processor is 6 blocks behind the chain head'])
+    })
+
+    it('is healthy while far behind the chain head, until the writer fails', async () => {
+        status.registerBatch({headNumber: 1000})
+        let writer = {isHealthy: true}
+        status.setWriter(writer)
+        let {status: code, report} = await get('/health')
+        assert.equal(code, 200)
+        assert.equal(report.ok, true)
+        assert.deepEqual(report.lag, {blocks: 990})
+
+        writer.isHealthy = false
+        ;({status: code, report} = await get('/health'))
+        assert.equal(code, 503)
+        assert.deepEqual(report.problems, ['writer has failed'])
+    })
+
+    it('reports a failure of the database', async () => {
+        let server = await serveStatus(0, new ProcessorStatus(new UnavailableClickhouse().client, 'db', false))
+        try {
+            let res = await fetch(`http://127.0.0.1:${server.port}/health`)
+            assert.equal(res.status, 503)
+            assert.deepEqual(await res.json(), {
+                ok: false,
+                problems: ['failed to fetch the head from the database: connection refused']
+            })
+        } finally {
+            await server.close()
+        }
+    })
+
+    it('serves metrics and rejects other requests', async () => {
+        let res = await fetch(`http://127.0.0.1:${server.port}/metrics`)
+        assert.equal(res.status, 200)
+        assert.match(res.headers.get('content-type')!, /^text\/plain; version=0\.0\.4/)
+        await res.text()
+
+        assert.equal((await fetch(`http://127.0.0.1:${server.port}/live`)).status, 404)
+        assert.equal((await fetch(`http://127.0.0.1:${server.port}/health`, {method: 'POST'})).status, 405)
+    })
+})
+
@@ -0,0 +1,114 @@
+import assert from 'node:assert/strict'
+import {Writable} from 'node:stream'
+import {describe, it} from 'node:test'
+import type {ClickhouseClient, InsertArgs} from '../src/clickhouse/client'
+import type {Upload} from '../src/clickhouse/upload'
+import {TableWriter} from '../src/clickhouse/writer/table-writer'
+import {BlockHeader} from '../src/clickhouse/writer/types'
+
+
+interface InsertRecord {
+    token?: string
+    rows: number[]
+}
+
+
+/**
+ * Accepts inserts, which complete successfully unless they were scheduled to fail
+ */
+class FakeInserts {
+    public inserts: InsertRecord[] = []
+    public attempts: (string | undefined)[] = []
+    public failures = 0
+
+    constructor(private writeDelay = 0) {}
+
+    get client(): ClickhouseClient {
+        return this as unknown as ClickhouseClient
+    }
+
+    insert(args: InsertArgs & {deduplicationToken?: string}): Upload<void> {
+        let record: InsertRecord = {token: args.deduplicationToken, rows: []}
+        this.attempts.push(args.deduplicationToken)
+        let fail = this.failures > 0
+        if (fail) {
+            this.failures -= 1
+        }
+        let delay = this.writeDelay
+        let input = new Writable({
+            highWaterMark: 1,
+            write(chunk: Buffer, _encoding, cb) {
+                for (let line of chunk.toString().split('\n')) {
+                    if (line) record.rows.push(JSON.parse(line).block_number)
+                }
+                delay ? setTimeout(cb, delay) : cb()
+            }
+        })
+        let result = new Promise<void>((resolve, reject) => {
+            input.on('finish', () => {
+                if (fail) {
+                    reject(new Error('connection reset'))
+                } else {
+                    this.inserts.push(record)
+                    resolve()
+                }
+            })
+        })
+        return {
+            id: this.inserts.length,
+            input,
+            result: () => result,
+            abort() {},
+            abortOnSignal() {}
+        }
+    }
+}
+
+
+function header(number: number): BlockHeader {
+    return {number, hash: `0x${number}`, parentHash: `0x${number - 1}`}
+}
+
+
+function rows(n: number): object[] {
+    return Array.from({length: n}, (_, i) => ({i}))
+}
+
+
+describe('TableWriter', () => {
+    it('retries an insert with the same deduplication token', async () => {
+        let db = new FakeInserts()
+        db.failures = 1
+        let writer = new TableWriter(db.client, 'db.transfers', {insertRetrySchedule: [0]})
+        writer.push(header(1), rows(2))
+        await writer.flush()
+        assert.equal(db.inserts.length, 1)
+        assert.deepEqual(db.inserts[0].rows, [1, 1])
+        assert.deepEqual(db.attempts, [db.inserts[0].token, db.inserts[0].token])
+        assert.equal(writer.getLastCommittedBlockNumber(), 1)
+    })
+
+    it('gives the same block range a new deduplication token in a new writer', async () => {
+        let db = new FakeInserts()
+        for (let i = 0; i < 2; i++) {
+            let writer = new TableWriter(db.client, 'db.transfers')
+            writer.push(header(1), rows(2))
+            await writer.flush()
+        }
+        assert.equal(db.inserts.length, 2)
+        assert.match(db.inserts[0].token!, /:db\.transfers:1$/)
+        assert.notEqual(db.inserts[0].token, db.inserts[1].token)
+    })
+
+    it('ends an insert at the block boundary after maxInsertDuration', async () => {
+        let db = new FakeInserts(5)
+        let writer = new TableWriter(db.client, 'db.transfers', {lowWaterMark: 100, maxInsertDuration: 1})
+        writer.push(header(1), rows(2))
+        writer.push(header(2), rows(2))
+        writer.push(header(3), rows(1))
+        await writer.flush()
+        assert.deepEqual(db.inserts.map(i => i.rows), [[1, 1], [2, 2], [3]])
+        assert.equal(new Set(db.inserts.map(i => i.token)).size, 3)
+        assert.equal(writer.getLastCommittedBlockNumber(), 3)
+    })
+})
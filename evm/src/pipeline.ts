@@ -0,0 +1,106 @@
+import type {GetDataSourceBlock} from 'core/clickhouse-processor'
+import {column, defineSchema, SchemaRows} from 'core/clickhouse/schema'
+import type {PipelineSettings} from 'core/pipeline'
+import {PortalDataSource} from 'core/portal/data-source'
+import * as erc20 from './abi/erc20'
+
+
+/**
+ * All USDC transfers since inception
+ */
+export function source(settings: PipelineSettings) {
+    return new PortalDataSource(
+        settings.portal ?? 'https://portal.sqd.dev/datasets/ethereum-mainnet/finalized-stream',
+        {
+            type: 'evm',
+            fromBlock: 6_082_465, // Contract creation block
+            fields: {
+                block: {
+                    timestamp: true
+                },
+                log: {
+                    logIndex: true,
+                    transactionHash: true,
+                    address: true,
+                    topics: true,
+                    data: true
+                }
+            },
+            logs: [
+                {
+                    address: ['0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48'],
+                    topic0: [erc20.events.Transfer.topic]
+                }
+            ]
+        }
+    )
+}
+
+
+/**
+ * Must match `db.sql`, which is verified at startup.
+ * `schema.getCreateStatements('erc20_src')` produces the corresponding DDL.
+ */
+export const schema = defineSchema({
+    blockHash: 'FixedString(66)',
+    tables: {
+        balance_updates: {
+            columns: {
+                log_index: column.UInt32(),
+                transaction_hash: column.FixedString(66),
+                contract: column.FixedString(42),
+                account: column.FixedString(42),
+                counterparty: column.FixedString(42),
+                amount: column.Int128()
+            },
+            partitionBy: 'toYYYYMM(block_timestamp)',
+            orderBy: ['account', 'block_number', 'log_index']
+        }
+    }
+})
+
+
+export type Data = SchemaRows<typeof schema>
+
+
+export function map(block: GetDataSourceBlock<ReturnType<typeof source>>): Data {
+    let data: Data = {
+        balance_updates: []
+    }
+    for (let log of (block.logs ?? [])) {
+        if (erc20.events.Transfer.is(log)) {
+            let {from, to, value} = erc20.events.Transfer.decode(log)
+
+            let common = {
+                log_index: log.logIndex,
+                transaction_hash: log.transactionHash,
+                contract: log.address,
+            }
+
+            if (from === to) {
+                // transfer from self to self does not update the balance
+                data.balance_updates.push({
+                    ...common,
+                    account: from,
+                    counterparty: to,
+                    amount: "0"
+                })
+            } else {
+                data.balance_updates.push({
+                    ...common,
+                    account: from,
+                    counterparty: to,
+                    amount: (-value).toString()
+                })
+
+                data.balance_updates.push({
+                    ...common,
+                    account: to,
+                    counterparty: from,
+                    amount: value.toString()
+                })
+            }
+        }
+    }
+    return data
+}
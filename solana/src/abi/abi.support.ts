@@ -9,6 +9,14 @@ export type Base58Bytes = string & {}
 export const DATA_SYM = Symbol.for('SQD_SVM_DATA')
 
 
+/**
+ * Data prefix of the self-invocation, with which Anchor's `emit_cpi!` emits events.
+ *
+ * The prefix is followed by the event discriminator and the event data.
+ */
+export const EVENT_CPI_TAG: Bytes = '0xe445a52e51cb9a1d'
+
+
 export interface InstructionRecord {
     accounts: Base58Bytes[]
     data: Base58Bytes
@@ -26,7 +34,7 @@ export function getInstructionData(i: InstructionRecord): Uint8Array {
 
 export function instruction<
     D extends Discriminator,
-    A extends Record<string, number>,
+    const A extends Record<string, number>,
     DataCodec extends Codec<any>
 >(
     d: D,
@@ -56,11 +64,26 @@ type DeriveInstruction<D, A, DataCodec> = Simplify<
     RemoveUndefined<D> &
     Instruction<
         {[K in keyof A]: Base58Bytes},
-        GetCodecType<DataCodec>
+        GetCodecType<DataCodec>,
+        SelectableAccounts<A>
     >
 >
 
 
+/**
+ * Maximum index of an instruction account, that can be filtered by the portal (`a0` - `a15`)
+ */
+export const MAX_SELECTABLE_ACCOUNT = 15
+
+
+type SelectableIndex = 0 | 1 | 2 | 3 | 4 | 5 | 6 | 7 | 8 | 9 | 10 | 11 | 12 | 13 | 14 | 15
+
+
+type SelectableAccounts<A> = {
+    [K in keyof A]: number extends A[K] ? K : A[K] extends SelectableIndex ? K : never
+}[keyof A]
+
+
 type DeriveEvent<D, DataCodec> = Simplify<
     RemoveUndefined<D> &
     Event<GetCodecType<DataCodec>>
@@ -77,22 +100,33 @@ type RemoveUndefined<T> = {
 }
 
 
-class Instruction<A, D> {
+class Instruction<A, D, S extends keyof A = keyof A> {
     constructor(
         private accounts: {[K in keyof A]: number},
         private data: Codec<D>
     ) {}
 
-    accountSelection(accounts: {[K in keyof A]?: Base58Bytes[]}): AccountSelection {
+    /**
+     * Create the account filter of a portal instruction request.
+     *
+     * Only accounts with indexes up to {@link MAX_SELECTABLE_ACCOUNT} can be filtered by the portal,
+     * {@link AccountSelectionError} is thrown for others.
+     */
+    accountSelection(accounts: {[K in S]?: Base58Bytes[]}): AccountSelection {
         let selection: any = {}
         for (let key in accounts) {
             let idx = this.accounts[key]
-            assert(idx < 10)
+            assert(idx != null, `unknown account '${key}'`)
+            if (idx > MAX_SELECTABLE_ACCOUNT) throw new AccountSelectionError(key, idx)
             selection['a'+idx] = accounts[key]
         }
         return selection
     }
 
+    isAccountSelectable(account: keyof A): boolean {
+        return this.accounts[account] <= MAX_SELECTABLE_ACCOUNT
+    }
+
     decode(ins: InstructionRecord): DecodedInstruction<A, D> {
         return {
             accounts: this.decodeAccounts(ins.accounts),
@@ -204,6 +238,21 @@ class Event<D> {
 }
 
 
+export class AccountSelectionError extends Error {
+    constructor(public readonly account: string, public readonly index: number) {
+        super(
+            `account '${account}' has index ${index}, ` +
+            `but the portal can filter only accounts with indexes up to ${MAX_SELECTABLE_ACCOUNT}, ` +
+            `it should be filtered client-side`
+        )
+    }
+
+    get name(): string {
+        return 'AccountSelectionError'
+    }
+}
+
+
 function decodeHex(bytes: Bytes): Uint8Array {
     return Buffer.from(bytes.slice(2), 'hex') as Uint8Array
 }
@@ -261,4 +310,10 @@ export interface AccountSelection {
     a7?: Base58Bytes[]
     a8?: Base58Bytes[]
     a9?: Base58Bytes[]
+    a10?: Base58Bytes[]
+    a11?: Base58Bytes[]
+    a12?: Base58Bytes[]
+    a13?: Base58Bytes[]
+    a14?: Base58Bytes[]
+    a15?: Base58Bytes[]
 }
@@ -0,0 +1,35 @@
+import {address, struct, u64} from '@subsquid/borsh'
+import {instruction} from './abi.support'
+
+
+export const programId = '11111111111111111111111111111111'
+
+
+export const createAccount = instruction(
+    {
+        d4: '0x00000000',
+    },
+    {
+        from: 0,
+        newAccount: 1,
+    },
+    struct({
+        lamports: u64,
+        space: u64,
+        owner: address,
+    })
+)
+
+
+export const transfer = instruction(
+    {
+        d4: '0x02000000',
+    },
+    {
+        from: 0,
+        to: 1,
+    },
+    struct({
+        lamports: u64,
+    })
+)
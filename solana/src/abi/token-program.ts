@@ -1,7 +1,66 @@
-import {struct, u64} from '@subsquid/borsh'
+import {address, option, struct, u16, u64, u8, unit} from '@subsquid/borsh'
 import {instruction} from './abi.support'
 
 
+/**
+ * SPL Token program
+ */
+export const programId = 'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA'
+
+
+/**
+ * Token-2022 program.
+ *
+ * It supports all instructions of the SPL Token program with the same layout
+ * and adds extension instructions, like the ones of the transfer fee extension.
+ */
+export const token2022ProgramId = 'TokenzQdBNbLqP5VEhdkAS6EPFLC1PHnBqCXEpPxuEb'
+
+
+export const initializeMint = instruction(
+    {
+        d1: '0x00',
+    },
+    {
+        mint: 0,
+        rent: 1,
+    },
+    struct({
+        decimals: u8,
+        mintAuthority: address,
+        freezeAuthority: option(address),
+    })
+)
+
+
+export const initializeAccount = instruction(
+    {
+        d1: '0x01',
+    },
+    {
+        account: 0,
+        mint: 1,
+        owner: 2,
+        rent: 3,
+    },
+    unit
+)
+
+
+export const initializeMultisig = instruction(
+    {
+        d1: '0x02',
+    },
+    {
+        multisig: 0,
+        rent: 1,
+    },
+    struct({
+        m: u8,
+    })
+)
+
+
 export const transfer = instruction(
     {
         d1: '0x03',
@@ -15,3 +74,342 @@ export const transfer = instruction(
         amount: u64
     })
 )
+
+
+export const approve = instruction(
+    {
+        d1: '0x04',
+    },
+    {
+        source: 0,
+        delegate: 1,
+        owner: 2,
+    },
+    struct({
+        amount: u64,
+    })
+)
+
+
+export const revoke = instruction(
+    {
+        d1: '0x05',
+    },
+    {
+        source: 0,
+        owner: 1,
+    },
+    unit
+)
+
+
+export const setAuthority = instruction(
+    {
+        d1: '0x06',
+    },
+    {
+        account: 0,
+        currentAuthority: 1,
+    },
+    struct({
+        authorityType: u8,
+        newAuthority: option(address),
+    })
+)
+
+
+export const mintTo = instruction(
+    {
+        d1: '0x07',
+    },
+    {
+        mint: 0,
+        account: 1,
+        mintAuthority: 2,
+    },
+    struct({
+        amount: u64,
+    })
+)
+
+
+export const burn = instruction(
+    {
+        d1: '0x08',
+    },
+    {
+        account: 0,
+        mint: 1,
+        authority: 2,
+    },
+    struct({
+        amount: u64,
+    })
+)
+
+
+export const closeAccount = instruction(
+    {
+        d1: '0x09',
+    },
+    {
+        account: 0,
+        destination: 1,
+        owner: 2,
+    },
+    unit
+)
+
+
+export const freezeAccount = instruction(
+    {
+        d1: '0x0a',
+    },
+    {
+        account: 0,
+        mint: 1,
+        authority: 2,
+    },
+    unit
+)
+
+
+export const thawAccount = instruction(
+    {
+        d1: '0x0b',
+    },
+    {
+        account: 0,
+        mint: 1,
+        authority: 2,
+    },
+    unit
+)
+
+
+export const transferChecked = instruction(
+    {
+        d1: '0x0c',
+    },
+    {
+        source: 0,
+        mint: 1,
+        destination: 2,
+        signer: 3,
+    },
+    struct({
+        amount: u64,
+        decimals: u8,
+    })
+)
+
+
+export const approveChecked = instruction(
+    {
+        d1: '0x0d',
+    },
+    {
+        source: 0,
+        mint: 1,
+        delegate: 2,
+        owner: 3,
+    },
+    struct({
+        amount: u64,
+        decimals: u8,
+    })
+)
+
+
+export const mintToChecked = instruction(
+    {
+        d1: '0x0e',
+    },
+    {
+        mint: 0,
+        account: 1,
+        mintAuthority: 2,
+    },
+    struct({
+        amount: u64,
+        decimals: u8,
+    })
+)
+
+
+export const burnChecked = instruction(
+    {
+        d1: '0x0f',
+    },
+    {
+        account: 0,
+        mint: 1,
+        authority: 2,
+    },
+    struct({
+        amount: u64,
+        decimals: u8,
+    })
+)
+
+
+export const initializeAccount2 = instruction(
+    {
+        d1: '0x10',
+    },
+    {
+        account: 0,
+        mint: 1,
+        rent: 2,
+    },
+    struct({
+        owner: address,
+    })
+)
+
+
+export const syncNative = instruction(
+    {
+        d1: '0x11',
+    },
+    {
+        account: 0,
+    },
+    unit
+)
+
+
+export const initializeAccount3 = instruction(
+    {
+        d1: '0x12',
+    },
+    {
+        account: 0,
+        mint: 1,
+    },
+    struct({
+        owner: address,
+    })
+)
+
+
+export const initializeMultisig2 = instruction(
+    {
+        d1: '0x13',
+    },
+    {
+        multisig: 0,
+    },
+    struct({
+        m: u8,
+    })
+)
+
+
+export const initializeMint2 = instruction(
+    {
+        d1: '0x14',
+    },
+    {
+        mint: 0,
+    },
+    struct({
+        decimals: u8,
+        mintAuthority: address,
+        freezeAuthority: option(address),
+    })
+)
+
+
+/**
+ * Transfer fee extension instructions of Token-2022 program
+ */
+export const transferFee = {
+    initializeTransferFeeConfig: instruction(
+        {
+            d2: '0x1a00',
+        },
+        {
+            mint: 0,
+        },
+        struct({
+            transferFeeConfigAuthority: option(address),
+            withdrawWithheldAuthority: option(address),
+            transferFeeBasisPoints: u16,
+            maximumFee: u64,
+        })
+    ),
+
+    transferCheckedWithFee: instruction(
+        {
+            d2: '0x1a01',
+        },
+        {
+            source: 0,
+            mint: 1,
+            destination: 2,
+            signer: 3,
+        },
+        struct({
+            amount: u64,
+            decimals: u8,
+            fee: u64,
+        })
+    ),
+
+    withdrawWithheldTokensFromMint: instruction(
+        {
+            d2: '0x1a02',
+        },
+        {
+            mint: 0,
+            destination: 1,
+            authority: 2,
+        },
+        unit
+    ),
+
+    /**
+     * Source accounts follow the authority and its multisig signers
+     */
+    withdrawWithheldTokensFromAccounts: instruction(
+        {
+            d2: '0x1a03',
+        },
+        {
+            mint: 0,
+            destination: 1,
+            authority: 2,
+        },
+        struct({
+            numTokenAccounts: u8,
+        })
+    ),
+
+    /**
+     * Source accounts follow the mint
+     */
+    harvestWithheldTokensToMint: instruction(
+        {
+            d2: '0x1a04',
+        },
+        {
+            mint: 0,
+        },
+        unit
+    ),
+
+    setTransferFee: instruction(
+        {
+            d2: '0x1a05',
+        },
+        {
+            mint: 0,
+            authority: 1,
+        },
+        struct({
+            transferFeeBasisPoints: u16,
+            maximumFee: u64,
+        })
+    ),
+}
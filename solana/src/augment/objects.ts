@@ -1,29 +1,43 @@
 import {Base58Bytes, Bytes} from 'core/portal/data'
-import {getInstructionData} from '../abi/abi.support'
-import {AugmentBlockBase, BalanceBase, InstructionBase, TokenBalanceBase, TransactionBase} from './types'
+import {EVENT_CPI_TAG, getInstructionData} from '../abi/abi.support'
+import {
+    AugmentBlockBase,
+    BalanceBase,
+    InstructionBase,
+    InstructionEvent,
+    LogBase,
+    TokenBalanceBase,
+    TransactionBase
+} from './types'
 
 
 export class Block {
     header: object
     transactions: Transaction[]
     instructions: Instruction[]
+    logs: LogMessage[]
     balances: Balance[]
     tokenBalances: TokenBalance[]
+    rewards: Reward[]
 
     constructor(src: AugmentBlockBase) {
         this.header = src.header
         this.transactions = map(src.transactions, s => new Transaction(this.header, s))
         this.instructions = map(src.instructions, s => new Instruction(this.header, s))
+        this.logs = map(src.logs, s => new LogMessage(this.header, s))
         this.balances = map(src.balances, s => new Balance(this.header, s))
         this.tokenBalances = map(src.tokenBalances, s => new TokenBalance(this.header, s))
+        this.rewards = map(src.rewards, s => new Reward(this.header, s))
     }
 }
 
 
 export class Transaction {
     transactionIndex!: number
+    accountKeys?: Base58Bytes[]
     #block: object
     #instructions?: object[]
+    #logs?: object[]
     #balances?: object[]
     #tokenBalances?: object[]
 
@@ -51,6 +65,17 @@ export class Transaction {
         this.#instructions = value
     }
 
+    get logs(): object[] {
+        if (this.#logs == null) {
+            this.#logs = []
+        }
+        return this.#logs
+    }
+
+    set logs(value: object[]) {
+        this.#logs = value
+    }
+
     get balances(): object[] {
         if (this.#balances == null) {
             this.#balances = []
@@ -72,17 +97,27 @@ export class Transaction {
     set tokenBalances(value: object[]) {
         this.#tokenBalances = value
     }
+
+    getFeePayer(): Base58Bytes {
+        if (this.accountKeys == null) {
+            throw new Error(`.accountKeys field is not available`)
+        }
+        return this.accountKeys[0]
+    }
 }
 
 
 export class Instruction {
     transactionIndex!: number
     instructionAddress!: number[]
+    programId?: Base58Bytes
     data?: Base58Bytes
     #block: object
     #transaction?: Transaction
     #inner?: Instruction[]
     #parent?: Instruction
+    #logs?: LogMessage[]
+    #events?: InstructionEvent[]
     #data?: string
     #d1?: string
     #d2?: string
@@ -138,6 +173,67 @@ export class Instruction {
         this.#parent = value
     }
 
+    getParent(): Instruction {
+        if (this.#parent == null) {
+            throw new Error(`Parent instruction is not set`)
+        } else {
+            return this.#parent
+        }
+    }
+
+    get logs(): LogMessage[] {
+        if (this.#logs == null) {
+            this.#logs = []
+        }
+        return this.#logs
+    }
+
+    set logs(value: LogMessage[]) {
+        this.#logs = value
+    }
+
+    getLogs(): LogMessage[] {
+        let logs: LogMessage[] = []
+        collectLogs(this, logs)
+        return logs.sort((a, b) => a.getLogIndex() - b.getLogIndex())
+    }
+
+    /**
+     * Anchor events emitted by this instruction.
+     *
+     * Events emitted with `emit_cpi!` are taken from inner instructions,
+     * events emitted with `emit!` - from `Program data:` log messages.
+     * The latter requires log messages of the instruction to be fetched.
+     */
+    get events(): InstructionEvent[] {
+        if (this.#events) return this.#events
+        let events: InstructionEvent[] = []
+        for (let ins of this.inner) {
+            if (ins.isEventCpi(this)) {
+                let msg = '0x' + ins.getHexData().slice(18)
+                events.push({source: 'cpi', msg, d8: msg.slice(0, 18)})
+            }
+        }
+        for (let log of this.logs) {
+            if (log.kind == null || log.message == null) {
+                throw new Error(`.kind and .message fields of log messages are not available`)
+            }
+            if (log.kind !== 'data') continue
+            // `sol_log_data()` logs base64 encoded slices separated by spaces,
+            // Anchor emits an event as a single slice
+            let msg = toHex(Buffer.from(log.message.split(' ')[0], 'base64'))
+            events.push({source: 'log', msg, d8: msg.slice(0, 18)})
+        }
+        return this.#events = events
+    }
+
+    private isEventCpi(parent: Instruction): boolean {
+        if (parent.programId == null || this.programId == null) {
+            throw new Error(`.programId field is not available`)
+        }
+        return this.programId === parent.programId && this.d8 === EVENT_CPI_TAG
+    }
+
     get d1(): Bytes {
         if (this.#d1) {
             return this.#d1
@@ -189,6 +285,70 @@ export class Instruction {
 }
 
 
+export class LogMessage {
+    transactionIndex!: number
+    instructionAddress!: number[]
+    logIndex?: number
+    kind?: string
+    message?: string
+    #block: object
+    #transaction?: Transaction
+    #instruction?: Instruction
+
+    constructor(block: object, src: LogBase) {
+        this.#block = block
+        Object.assign(this, src)
+    }
+
+    get block(): object {
+        return this.#block
+    }
+
+    set block(value: object) {
+        this.#block = value
+    }
+
+    get transaction(): Transaction | undefined {
+        return this.#transaction
+    }
+
+    set transaction(value: Transaction | undefined) {
+        this.#transaction = value
+    }
+
+    getTransaction(): Transaction {
+        if (this.#transaction == null) {
+            throw new Error(`Transaction is not set on log message`)
+        } else {
+            return this.#transaction
+        }
+    }
+
+    get instruction(): Instruction | undefined {
+        return this.#instruction
+    }
+
+    set instruction(value: Instruction | undefined) {
+        this.#instruction = value
+    }
+
+    getInstruction(): Instruction {
+        if (this.#instruction == null) {
+            throw new Error(`Instruction is not set on log message`)
+        } else {
+            return this.#instruction
+        }
+    }
+
+    getLogIndex(): number {
+        if (this.logIndex == null) {
+            throw new Error(`.logIndex field is not available`)
+        }
+        return this.logIndex
+    }
+}
+
+
 export class Balance {
     transactionIndex!: number
     #block: object
@@ -261,6 +421,32 @@ export class TokenBalance {
 }
 
 
+export class Reward {
+    #block: object
+
+    constructor(block: object, src: object) {
+        this.#block = block
+        Object.assign(this, src)
+    }
+
+    get block(): object {
+        return this.#block
+    }
+
+    set block(value: object) {
+        this.#block = value
+    }
+}
+
+
+function collectLogs(ins: Instruction, logs: LogMessage[]): void {
+    logs.push(...ins.logs)
+    for (let inner of ins.inner) {
+        collectLogs(inner, logs)
+    }
+}
+
+
 // Faster version of `array.map()`
 function map<T, R>(items: T[] | undefined, f: (it: T) => R): R[] {
     if (items == null) return []
@@ -3,7 +3,12 @@ import {Block, Instruction, Transaction} from './objects'
 
 export function setUpRelations(block: Block): void {
     let txs: (Transaction | undefined)[] = new Array(
-        block.transactions.length && (block.instructions.length || block.tokenBalances.length || block.balances.length)
+        block.transactions.length && (
+            block.instructions.length ||
+            block.logs.length ||
+            block.tokenBalances.length ||
+            block.balances.length
+        )
             ? block.transactions[block.transactions.length - 1].transactionIndex + 1
             : 0
     )
@@ -35,6 +40,19 @@ export function setUpRelations(block: Block): void {
         }
     }
 
+    if (block.logs.length > 0) {
+        let instructions = new Map<string, Instruction>()
+        for (let ins of block.instructions) {
+            instructions.set(instructionKey(ins.transactionIndex, ins.instructionAddress), ins)
+        }
+        for (let log of block.logs) {
+            log.transaction = txs[log.transactionIndex]
+            log.transaction?.logs.push(log)
+            log.instruction = instructions.get(instructionKey(log.transactionIndex, log.instructionAddress))
+            log.instruction?.logs.push(log)
+        }
+    }
+
     for (let b of block.balances) {
         b.transaction = txs[b.transactionIndex]
         b.transaction?.balances.push(b)
@@ -47,6 +65,11 @@ export function setUpRelations(block: Block): void {
 }
 
 
+function instructionKey(transactionIndex: number, instructionAddress: number[]): string {
+    return `${transactionIndex}:${instructionAddress.join('.')}`
+}
+
+
 function isInner(parent: number[], inner: number[]): boolean {
     if (parent.length > inner.length) return false
     for (let i = 0; i < parent.length; i++) {
@@ -4,6 +4,8 @@ import {
     GetBalance,
     GetBlockHeader,
     GetInstruction,
+    GetLog,
+    GetReward,
     GetTokenBalance,
     GetTransaction
 } from 'core/portal/data'
@@ -13,8 +15,10 @@ export interface AugmentBlockBase {
     header: object
     transactions?: TransactionBase[]
     instructions?: InstructionBase[]
+    logs?: LogBase[]
     balances?: BalanceBase[]
     tokenBalances?: TokenBalanceBase[]
+    rewards?: object[]
 }
 
 
@@ -26,10 +30,20 @@ export interface TransactionBase {
 export interface InstructionBase {
     transactionIndex: number
     instructionAddress: number[]
+    programId?: Base58Bytes
     data?: Base58Bytes
 }
 
 
+export interface LogBase {
+    transactionIndex: number
+    instructionAddress: number[]
+    logIndex?: number
+    kind?: string
+    message?: string
+}
+
+
 export interface TokenBalanceBase {
     transactionIndex: number
 }
@@ -48,15 +62,25 @@ export type AugmentBlock<B extends AugmentBlockBase> = {
     header: GetBlockHeader<B>
     transactions: AugmentedTransaction<B>[]
     instructions: AugmentedInstruction<B>[]
+    logs: AugmentedLogMessage<B>[]
     balances: AugmentedBalance<B>[]
     tokenBalances: AugmentedTokenBalance<B>[]
+    rewards: AugmentedReward<B>[]
 }
 
 
 export type AugmentedTransaction<B> = GetTransaction<B> & {
     block: GetBlockHeader<B>
-    instructions: AugmentedInstruction<GetInstruction<B>>[]
+    instructions: AugmentedInstruction<B>[]
+    logs: AugmentedLogMessage<B>[]
+    balances: AugmentedBalance<B>[]
     tokenBalances: AugmentedTokenBalance<B>[]
+    /**
+     * Account paying the transaction fee (the first account key).
+     *
+     * Requires `.accountKeys` field.
+     */
+    getFeePayer(): Base58Bytes
 }
 
 
@@ -65,6 +89,19 @@ export type AugmentedInstruction<B> = GetInstruction<B> & {
     transaction?: AugmentedTransaction<B>
     getTransaction(): AugmentedTransaction<B>
     inner: AugmentedInstruction<B>[]
+    parent?: AugmentedInstruction<B>
+    getParent(): AugmentedInstruction<B>
+    /**
+     * Log messages emitted by the instruction itself
+     */
+    logs: AugmentedLogMessage<B>[]
+    /**
+     * Log messages emitted by the instruction and all its inner instructions, ordered by `.logIndex`.
+     *
+     * Requires `.logIndex` field.
+     */
+    getLogs(): AugmentedLogMessage<B>[]
+    events: InstructionEvent[]
     getHexData(): Bytes
     d1: Bytes
     d2: Bytes
@@ -74,6 +111,32 @@ export type AugmentedInstruction<B> = GetInstruction<B> & {
 }
 
 
+/**
+ * Anchor event emitted by an instruction
+ */
+export interface InstructionEvent {
+    /**
+     * `cpi` - the event was emitted with `emit_cpi!` as a self-invocation of the program,
+     * `log` - the event was emitted with `emit!` as a `Program data:` log message
+     */
+    source: 'cpi' | 'log'
+    /**
+     * Hex encoded event data, starting with the event discriminator
+     */
+    msg: Bytes
+    d8: Bytes
+}
+
+
+export type AugmentedLogMessage<B> = GetLog<B> & {
+    block: GetBlockHeader<B>
+    transaction?: AugmentedTransaction<B>
+    getTransaction(): AugmentedTransaction<B>
+    instruction?: AugmentedInstruction<B>
+    getInstruction(): AugmentedInstruction<B>
+}
+
+
 export type AugmentedBalance<B> = GetBalance<B> & {
     block: GetBlockHeader<B>
     transaction?: AugmentedTransaction<B>
@@ -86,3 +149,8 @@ export type AugmentedTokenBalance<B> = GetTokenBalance<B> & {
     transaction?: AugmentedTransaction<B>
     getTransaction(): AugmentedTransaction<B>
 }
+
+
+export type AugmentedReward<B> = GetReward<B> & {
+    block: GetBlockHeader<B>
+}
@@ -2,9 +2,9 @@ import assert from 'assert'
 import {runClickhouseProcessing} from 'core/clickhouse-processor'
 import {Base58Bytes} from 'core/portal/data'
 import {PortalDataSource} from 'core/portal/data-source'
-import * as tokenProgram from './abi/token-program'
 import * as whirlpool from './abi/whirlpool'
 import {augmentBlock} from './augment'
+import {decodeTokenTransfer} from './token-transfer'
 
 
 /**
@@ -30,6 +30,12 @@ const source = new PortalDataSource(
                 accounts: true,
                 data: true
             },
+            log: {
+                transactionIndex: true,
+                instructionAddress: true,
+                kind: true,
+                message: true
+            },
             tokenBalance: {
                 transactionIndex: true,
                 account: true,
@@ -50,6 +56,7 @@ const source = new PortalDataSource(
                     whirlpool: ['7qbRF6YsyGuLUVs6Y1q64bdVrfe4ZcUUz1JRdoVNUJnm']
                 }),
                 innerInstructions: true,
+                logs: true,
                 transaction: true,
                 transactionTokenBalances: true,
                 isCommitted: true
@@ -67,29 +74,52 @@ runClickhouseProcessing({
         let block = augmentBlock(inputBlock)
         for (let ins of block.instructions) {
             if (ins.programId === whirlpool.programId && ins.d8 === whirlpool.instructions.swap.d8) {
-                assert(ins.inner.length == 2)
+                let swap = whirlpool.instructions.swap.decode(ins)
 
-                let srcTransfer = tokenProgram.transfer.decode(ins.inner[0])
-                let destTransfer = tokenProgram.transfer.decode(ins.inner[1])
+                let tokenBalances = ins.getTransaction().tokenBalances
+                let [srcVault, destVault] = swap.data.aToB
+                    ? [swap.accounts.tokenVaultA, swap.accounts.tokenVaultB]
+                    : [swap.accounts.tokenVaultB, swap.accounts.tokenVaultA]
+                let [srcAccount, destAccount] = swap.data.aToB
+                    ? [swap.accounts.tokenOwnerAccountA, swap.accounts.tokenOwnerAccountB]
+                    : [swap.accounts.tokenOwnerAccountB, swap.accounts.tokenOwnerAccountA]
 
-                let srcBalance = ins.getTransaction().tokenBalances.find(tb => tb.account == srcTransfer.accounts.source)
-                let destBalance = ins.getTransaction().tokenBalances.find(tb => tb.account === destTransfer.accounts.destination)
+                let srcBalance = tokenBalances.find(tb => tb.account === srcAccount)
+                let destBalance = tokenBalances.find(tb => tb.account === destAccount)
 
-                let srcMint = ins.getTransaction().tokenBalances.find(tb => tb.account === srcTransfer.accounts.destination)?.preMint
-                let destMint = ins.getTransaction().tokenBalances.find(tb => tb.account === destTransfer.accounts.source)?.preMint
+                let srcMint = tokenBalances.find(tb => tb.account === srcVault)?.preMint
+                let destMint = tokenBalances.find(tb => tb.account === destVault)?.preMint
 
                 assert(srcMint)
                 assert(destMint)
 
+                let fromAmount: bigint
+                let toAmount: bigint
+                let traded = ins.events.find(e => e.d8 === whirlpool.events.Traded.d8)
+                if (traded) {
+                    let event = whirlpool.events.Traded.decode(traded)
+                    fromAmount = event.inputAmount
+                    toAmount = event.outputAmount
+                } else {
+                    // The event is missing, when logs were truncated.
+                    // Take amounts from the transfers between owner accounts and vaults instead.
+                    let transfers = ins.inner.map(decodeTokenTransfer)
+                    let input = transfers.find(t => t?.source === srcAccount && t.destination === srcVault)
+                    let output = transfers.find(t => t?.source === destVault && t.destination === destAccount)
+                    assert(input && output, 'failed to find token transfers of the swap')
+                    fromAmount = input.amount
+                    toAmount = output.amount
+                }
+
                 data.swaps.push({
                     transaction_index: ins.transactionIndex,
                     transaction_hash: ins.getTransaction().signatures[0],
                     from_token: srcMint,
-                    from_owner: srcBalance?.preOwner || srcTransfer.accounts.source,
-                    from_amount: srcTransfer.data.amount.toString(),
+                    from_owner: srcBalance?.preOwner || srcAccount,
+                    from_amount: fromAmount.toString(),
                     to_token: destMint,
-                    to_owner: destBalance?.postOwner || destBalance?.preOwner || destTransfer.accounts.destination,
-                    to_amount: destTransfer.data.amount.toString()
+                    to_owner: destBalance?.postOwner || destBalance?.preOwner || destAccount,
+                    to_amount: toAmount.toString()
                 })
             }
         }
@@ -0,0 +1,194 @@
+import {Base58Bytes, Bytes} from './abi/abi.support'
+import * as systemProgram from './abi/system-program'
+import * as tokenProgram from './abi/token-program'
+import {decodeTokenTransfer, isTokenProgram, TokenBalanceRecord, TokenInstruction} from './token-transfer'
+
+
+export interface TokenDelta {
+    /**
+     * Owner of token accounts or the token account itself, when its owner is unknown
+     */
+    owner: Base58Bytes
+    mint: Base58Bytes
+    amount: bigint
+}
+
+
+export interface SolDelta {
+    account: Base58Bytes
+    /**
+     * Change of the account balance in lamports
+     */
+    amount: bigint
+}
+
+
+/**
+ * Net balance changes, zero changes are omitted
+ */
+export interface TokenFlow {
+    tokens: TokenDelta[]
+    sol: SolDelta[]
+}
+
+
+export interface FlowTransaction {
+    tokenBalances: FlowTokenBalance[]
+    balances: FlowBalance[]
+}
+
+
+export interface FlowTokenBalance extends TokenBalanceRecord {
+    preAmount?: bigint
+    postAmount?: bigint
+}
+
+
+export interface FlowBalance {
+    account: Base58Bytes
+    pre: bigint
+    post: bigint
+}
+
+
+export interface FlowInstruction extends TokenInstruction {
+    d4: Bytes
+    inner: FlowInstruction[]
+}
+
+
+/**
+ * Compute net token and SOL balance changes of the transaction
+ * from its `tokenBalances` and `balances`.
+ *
+ * Token deltas of accounts with the same owner and mint are summed up.
+ * SOL deltas include the transaction fee and rent of created or closed accounts.
+ */
+export function getTransactionTokenFlow(tx: FlowTransaction): TokenFlow {
+    let flow = new FlowBuilder()
+    for (let tb of tx.tokenBalances) {
+        if (tb.preMint != null && tb.preAmount != null) {
+            flow.addToken(tb.preOwner ?? tb.account, tb.preMint, -tb.preAmount)
+        }
+        if (tb.postMint != null && tb.postAmount != null) {
+            flow.addToken(tb.postOwner ?? tb.account, tb.postMint, tb.postAmount)
+        }
+    }
+    for (let b of tx.balances) {
+        flow.addSol(b.account, b.post - b.pre)
+    }
+    return flow.build()
+}
+
+
+/**
+ * Compute net token and SOL balance changes caused by the instruction and its inner instructions.
+ *
+ * Unlike transaction's balances, changes of a single instruction are not recorded by the chain,
+ * so they are derived from token transfers, mints and burns of SPL Token and Token-2022 programs
+ * and from lamport transfers of the system program.
+ * Mints and owners of token accounts are resolved from transaction's `tokenBalances`.
+ *
+ * Instructions of failed transactions are not distinguished and should be filtered beforehand.
+ *
+ * Limitations:
+ *
+ * - Fees withheld by plain `transfer` and `transferChecked` of Token-2022 mints with the transfer fee extension
+ *   are unknown (see `TokenTransfer.fee`), the destination is credited with the full amount.
+ * - Movements of withheld fees (`withdrawWithheldTokensFromMint`, `withdrawWithheldTokensFromAccounts`,
+ *   `harvestWithheldTokensToMint`) are not included, their amounts are not a part of the instructions.
+ * - Lamports returned by `closeAccount` to the destination account are not included for the same reason.
+ * - Transfers, which mint can't be resolved (e.g. when token balances were not fetched), are skipped.
+ */
+export function getInstructionTokenFlow(ins: FlowInstruction): TokenFlow {
+    let flow = new FlowBuilder()
+    addInstructionFlow(flow, ins)
+    return flow.build()
+}
+
+
+function addInstructionFlow(flow: FlowBuilder, ins: FlowInstruction): void {
+    if (isTokenProgram(ins.programId)) {
+        addTokenInstructionFlow(flow, ins)
+    } else if (ins.programId === systemProgram.programId) {
+        if (ins.d4 === systemProgram.transfer.d4) {
+            let t = systemProgram.transfer.decode(ins)
+            flow.addSol(t.accounts.from, -t.data.lamports)
+            flow.addSol(t.accounts.to, t.data.lamports)
+        } else if (ins.d4 === systemProgram.createAccount.d4) {
+            let c = systemProgram.createAccount.decode(ins)
+            flow.addSol(c.accounts.from, -c.data.lamports)
+            flow.addSol(c.accounts.newAccount, c.data.lamports)
+        }
+    }
+    for (let inner of ins.inner) {
+        addInstructionFlow(flow, inner)
+    }
+}
+
+
+function addTokenInstructionFlow(flow: FlowBuilder, ins: FlowInstruction): void {
+    let transfer = decodeTokenTransfer(ins)
+    if (transfer) {
+        flow.addToken(transfer.sourceOwner ?? transfer.source, transfer.mint, -transfer.amount)
+        flow.addToken(transfer.destinationOwner ?? transfer.destination, transfer.mint, transfer.amount - (transfer.fee ?? 0n))
+        return
+    }
+
+    let change: {account: Base58Bytes, mint: Base58Bytes, amount: bigint} | undefined
+    switch(ins.d1) {
+        case tokenProgram.mintTo.d1:
+        case tokenProgram.mintToChecked.d1: {
+            let m = ins.d1 === tokenProgram.mintTo.d1
+                ? tokenProgram.mintTo.decode(ins)
+                : tokenProgram.mintToChecked.decode(ins)
+            change = {account: m.accounts.account, mint: m.accounts.mint, amount: m.data.amount}
+            break
+        }
+        case tokenProgram.burn.d1:
+        case tokenProgram.burnChecked.d1: {
+            let b = ins.d1 === tokenProgram.burn.d1
+                ? tokenProgram.burn.decode(ins)
+                : tokenProgram.burnChecked.decode(ins)
+            change = {account: b.accounts.account, mint: b.accounts.mint, amount: -b.data.amount}
+            break
+        }
+    }
+    if (change == null) return
+
+    let balance = ins.getTransaction().tokenBalances.find(tb => tb.account === change.account)
+    let owner = balance?.postOwner ?? balance?.preOwner ?? change.account
+    flow.addToken(owner, change.mint, change.amount)
+}
+
+
+class FlowBuilder {
+    private tokens = new Map<string, TokenDelta>()
+    private sol = new Map<Base58Bytes, SolDelta>()
+
+    addToken(owner: Base58Bytes, mint: Base58Bytes, amount: bigint): void {
+        let key = `${owner}:${mint}`
+        let delta = this.tokens.get(key)
+        if (delta) {
+            delta.amount += amount
+        } else {
+            this.tokens.set(key, {owner, mint, amount})
+        }
+    }
+
+    addSol(account: Base58Bytes, amount: bigint): void {
+        let delta = this.sol.get(account)
+        if (delta) {
+            delta.amount += amount
+        } else {
+            this.sol.set(account, {account, amount})
+        }
+    }
+
+    build(): TokenFlow {
+        return {
+            tokens: Array.from(this.tokens.values()).filter(d => d.amount != 0n),
+            sol: Array.from(this.sol.values()).filter(d => d.amount != 0n)
+        }
+    }
+}
@@ -0,0 +1,125 @@
+import {Base58Bytes, Bytes, InstructionRecord} from './abi/abi.support'
+import * as tokenProgram from './abi/token-program'
+
+
+export interface TokenInstruction extends InstructionRecord {
+    programId: Base58Bytes
+    d1: Bytes
+    d2: Bytes
+    getTransaction(): {
+        tokenBalances: TokenBalanceRecord[]
+    }
+}
+
+
+export interface TokenBalanceRecord {
+    account: Base58Bytes
+    preMint?: Base58Bytes
+    postMint?: Base58Bytes
+    preOwner?: Base58Bytes
+    postOwner?: Base58Bytes
+}
+
+
+export interface TokenTransfer {
+    programId: Base58Bytes
+    mint: Base58Bytes
+    /**
+     * Source token account
+     */
+    source: Base58Bytes
+    /**
+     * Owner of the source token account, if it is known from token balances
+     */
+    sourceOwner?: Base58Bytes
+    /**
+     * Destination token account
+     */
+    destination: Base58Bytes
+    /**
+     * Owner of the destination token account, if it is known from token balances
+     */
+    destinationOwner?: Base58Bytes
+    /**
+     * Amount debited from the source account
+     */
+    amount: bigint
+    /**
+     * Part of the amount withheld by the Token-2022 transfer fee extension,
+     * the destination account receives `amount - fee`.
+     *
+     * The fee is known only for SPL Token transfers (always zero) and for `transferCheckedWithFee`.
+     * Plain `transfer` and `transferChecked` of Token-2022 mints with the transfer fee extension
+     * withhold a fee as well, but it is not a part of the instruction.
+     */
+    fee?: bigint
+}
+
+
+export function isTokenProgram(programId: Base58Bytes): boolean {
+    return programId === tokenProgram.programId || programId === tokenProgram.token2022ProgramId
+}
+
+
+/**
+ * Decode `transfer`, `transferChecked` or `transferCheckedWithFee` instruction
+ * of SPL Token or Token-2022 program.
+ *
+ * The mint (when it is not passed to the instruction) and owners of token accounts are resolved
+ * from transaction's token balances, so the instruction should be fetched with `transactionTokenBalances`.
+ *
+ * Returns `undefined` for other instructions
+ * and for `transfer` instructions, which mint can't be resolved from token balances.
+ */
+export function decodeTokenTransfer(ins: TokenInstruction): TokenTransfer | undefined {
+    if (!isTokenProgram(ins.programId)) return
+
+    let source: Base58Bytes
+    let destination: Base58Bytes
+    let mint: Base58Bytes | undefined
+    let amount: bigint
+    let fee = ins.programId === tokenProgram.programId ? 0n : undefined
+
+    if (ins.d1 === tokenProgram.transfer.d1) {
+        let t = tokenProgram.transfer.decode(ins)
+        source = t.accounts.source
+        destination = t.accounts.destination
+        amount = t.data.amount
+    } else if (ins.d1 === tokenProgram.transferChecked.d1) {
+        let t = tokenProgram.transferChecked.decode(ins)
+        source = t.accounts.source
+        destination = t.accounts.destination
+        mint = t.accounts.mint
+        amount = t.data.amount
+    } else if (ins.programId === tokenProgram.token2022ProgramId && ins.d2 === tokenProgram.transferFee.transferCheckedWithFee.d2) {
+        let t = tokenProgram.transferFee.transferCheckedWithFee.decode(ins)
+        source = t.accounts.source
+        destination = t.accounts.destination
+        mint = t.accounts.mint
+        amount = t.data.amount
+        fee = t.data.fee
+    } else {
+        return
+    }
+
+    let tokenBalances = ins.getTransaction().tokenBalances
+    let sourceBalance = tokenBalances.find(tb => tb.account === source)
+    let destinationBalance = tokenBalances.find(tb => tb.account === destination)
+
+    mint = mint
+        ?? sourceBalance?.preMint ?? sourceBalance?.postMint
+        ?? destinationBalance?.preMint ?? destinationBalance?.postMint
+
+    if (mint == null) return
+
+    return {
+        programId: ins.programId,
+        mint,
+        source,
+        sourceOwner: sourceBalance?.preOwner ?? sourceBalance?.postOwner,
+        destination,
+        destinationOwner: destinationBalance?.postOwner ?? destinationBalance?.preOwner,
+        amount,
+        fee
+    }
+}
@@ -0,0 +1,57 @@
+import assert from 'node:assert/strict'
+import {describe, it} from 'node:test'
+import {AccountSelectionError, MAX_SELECTABLE_ACCOUNT} from '../src/abi/abi.support'
+import * as whirlpool from '../src/abi/whirlpool'
+
+
+const {twoHopSwap} = whirlpool.instructions
+
+
+describe('accountSelection', () => {
+    it('maps accounts to a0-a15 filters', () => {
+        assert.deepEqual(
+            twoHopSwap.accountSelection({
+                tokenProgram: ['p'],
+                tokenOwnerAccountTwoA: ['a8'],
+                tokenOwnerAccountTwoB: ['a10'],
+                tokenVaultTwoB: ['a11'],
+                tickArrayOne0: ['a12'],
+                tickArrayOne1: ['a13'],
+                tickArrayOne2: ['a14'],
+                tickArrayTwo0: ['a15']
+            }),
+            {
+                a0: ['p'],
+                a8: ['a8'],
+                a10: ['a10'],
+                a11: ['a11'],
+                a12: ['a12'],
+                a13: ['a13'],
+                a14: ['a14'],
+                a15: ['a15']
+            }
+        )
+    })
+
+    it('rejects accounts beyond a15', () => {
+        assert.throws(
+            // @ts-expect-error accounts beyond a15 are not selectable
+            () => twoHopSwap.accountSelection({whirlpoolOne: ['w'], tickArrayTwo1: ['t']}),
+            (err: unknown) => {
+                assert(err instanceof AccountSelectionError)
+                assert.equal(err.name, 'AccountSelectionError')
+                assert.equal(err.account, 'tickArrayTwo1')
+                assert.equal(err.index, 16)
+                assert.match(err.message, /indexes up to 15, it should be filtered client-side/)
+                return true
+            }
+        )
+    })
+
+    it('tells which accounts are selectable', () => {
+        assert.equal(MAX_SELECTABLE_ACCOUNT, 15)
+        assert.equal(twoHopSwap.isAccountSelectable('tickArrayTwo0'), true)
+        assert.equal(twoHopSwap.isAccountSelectable('tickArrayTwo1'), false)
+        assert.equal(twoHopSwap.isAccountSelectable('oracleTwo'), false)
+    })
+})
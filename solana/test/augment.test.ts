@@ -0,0 +1,77 @@
+import assert from 'node:assert/strict'
+import {describe, it} from 'node:test'
+import {augmentBlock} from '../src/augment'
+
+
+function log(transactionIndex: number, instructionAddress: number[], logIndex: number, message: string) {
+    return {transactionIndex, instructionAddress, logIndex, kind: 'log', message}
+}
+
+
+function ins(transactionIndex: number, instructionAddress: number[]) {
+    return {transactionIndex, instructionAddress, programId: `p${instructionAddress.join('.')}`}
+}
+
+
+describe('augmentBlock', () => {
+    let block = augmentBlock({
+        header: {number: 1},
+        transactions: [{transactionIndex: 0}, {transactionIndex: 2}],
+        instructions: [
+            ins(0, [0]),
+            ins(0, [0, 0]),
+            ins(0, [0, 0, 0]),
+            ins(0, [0, 1]),
+            ins(0, [1]),
+            ins(2, [0])
+        ],
+        logs: [
+            log(0, [0], 0, 'swap'),
+            log(0, [0, 0], 1, 'transfer in'),
+            log(0, [0, 0, 0], 2, 'nested'),
+            log(0, [0], 3, 'swap continues'),
+            log(0, [0, 1], 4, 'transfer out'),
+            log(0, [1], 5, 'memo'),
+            log(1, [0], 0, 'instructions of the transaction were not fetched'),
+            log(2, [0], 0, 'another transaction')
+        ],
+        rewards: [{pubkey: 'validator', lamports: 100n}]
+    })
+
+    it('links log messages to their instructions and transactions', () => {
+        let [swap, transferIn, nested, transferOut, memo, other] = block.instructions
+        assert.deepEqual(swap.logs.map(l => l.message), ['swap', 'swap continues'])
+        assert.deepEqual(transferIn.logs.map(l => l.message), ['transfer in'])
+        assert.deepEqual(nested.logs.map(l => l.message), ['nested'])
+        assert.deepEqual(transferOut.logs.map(l => l.message), ['transfer out'])
+        assert.deepEqual(memo.logs.map(l => l.message), ['memo'])
+        assert.deepEqual(other.logs.map(l => l.message), ['another transaction'])
+
+        assert.equal(block.logs[1].getInstruction(), transferIn)
+        assert.equal(block.logs[1].getTransaction(), block.transactions[0])
+        assert.equal(block.transactions[0].logs.length, 6)
+        assert.equal(block.transactions[1].logs.length, 1)
+    })
+
+    it('collects logs of inner instructions in the log order', () => {
+        assert.deepEqual(
+            block.instructions[0].getLogs().map(l => l.message),
+            ['swap', 'transfer in', 'nested', 'swap continues', 'transfer out']
+        )
+        assert.deepEqual(block.instructions[1].getLogs().map(l => l.message), ['transfer in', 'nested'])
+    })
+
+    it('leaves logs without fetched instructions and transactions unlinked', () => {
+        let orphan = block.logs[6]
+        assert.equal(orphan.instruction, undefined)
+        assert.equal(orphan.transaction, undefined)
+        assert.throws(() => orphan.getInstruction(), /Instruction is not set on log message/)
+        assert.throws(() => orphan.getTransaction(), /Transaction is not set on log message/)
+    })
+
+    it('keeps block rewards', () => {
+        assert.equal(block.rewards.length, 1)
+        assert.deepEqual({...block.rewards[0]}, {pubkey: 'validator', lamports: 100n})
+        assert.equal(block.rewards[0].block, block.header)
+    })
+})
@@ -0,0 +1,94 @@
+import {bool, struct, u128, u64} from '@subsquid/borsh'
+import assert from 'node:assert/strict'
+import {describe, it} from 'node:test'
+import {EVENT_CPI_TAG} from '../src/abi/abi.support'
+import * as whirlpool from '../src/abi/whirlpool'
+import {augmentBlock} from '../src/augment'
+import {account, base58, encode} from './util'
+
+
+const TRADED: whirlpool.types.Traded = {
+    whirlpool: account(1),
+    aToB: true,
+    preSqrtPrice: 1n << 64n,
+    postSqrtPrice: (1n << 64n) - 1000n,
+    inputAmount: 1_000_000n,
+    outputAmount: 5_000n,
+    inputTransferFee: 0n,
+    outputTransferFee: 0n,
+    lpFee: 300n,
+    protocolFee: 30n
+}
+
+
+const TRADED_DATA = encode(whirlpool.events.Traded.d8, whirlpool.types.Traded, TRADED)
+
+
+const SWAP_DATA = base58(encode(whirlpool.instructions.swap.d8, struct({
+    amount: u64,
+    otherAmountThreshold: u64,
+    sqrtPriceLimit: u128,
+    amountSpecifiedIsInput: bool,
+    aToB: bool
+}), {
+    amount: 1_000_000n,
+    otherAmountThreshold: 0n,
+    sqrtPriceLimit: 0n,
+    amountSpecifiedIsInput: true,
+    aToB: true
+}))
+
+
+function swap(transactionIndex: number, instructionAddress: number[]) {
+    return {transactionIndex, instructionAddress, programId: whirlpool.programId, accounts: [], data: SWAP_DATA}
+}
+
+
+describe('instruction events', () => {
+    it('decodes events emitted with emit_cpi! by self-invocations', () => {
+        let cpiData = new Uint8Array([...Buffer.from(EVENT_CPI_TAG.slice(2), 'hex'), ...TRADED_DATA])
+        let block = augmentBlock({
+            header: {number: 1},
+            instructions: [
+                swap(0, [0]),
+                {...swap(0, [0, 0]), programId: account(2), data: base58(cpiData)},
+                {...swap(0, [0, 1]), data: base58(cpiData)}
+            ]
+        })
+
+        let [event, ...rest] = block.instructions[0].events
+        assert.deepEqual(rest, [], 'only self-invocations emit events')
+        assert.equal(event.source, 'cpi')
+        assert.equal(event.d8, whirlpool.events.Traded.d8)
+        assert.deepEqual(whirlpool.events.Traded.decode(event), TRADED)
+        assert.deepEqual(block.instructions[2].events, [])
+    })
+
+    it('decodes events emitted with emit! as Program data: logs', () => {
+        let block = augmentBlock({
+            header: {number: 1},
+            instructions: [swap(0, [0]), swap(1, [0])],
+            logs: [
+                {transactionIndex: 0, instructionAddress: [0], logIndex: 0, kind: 'log', message: 'Instruction: Swap'},
+                {transactionIndex: 0, instructionAddress: [0], logIndex: 1, kind: 'data', message: Buffer.from(TRADED_DATA).toString('base64')},
+                {transactionIndex: 1, instructionAddress: [0], logIndex: 0, kind: 'data', message: 'AQI= AwQ='}
+            ]
+        })
+
+        let [event, ...rest] = block.instructions[0].events
+        assert.deepEqual(rest, [])
+        assert.equal(event.source, 'log')
+        assert.deepEqual(whirlpool.events.Traded.decode(event), TRADED)
+
+        assert.deepEqual(block.instructions[1].events, [{source: 'log', msg: '0x0102', d8: '0x0102'}])
+    })
+
+    it('requires kind and message of log messages', () => {
+        let block = augmentBlock({
+            header: {number: 1},
+            instructions: [swap(0, [0])],
+            logs: [{transactionIndex: 0, instructionAddress: [0], logIndex: 0}]
+        })
+        assert.throws(() => block.instructions[0].events, /\.kind and \.message fields of log messages are not available/)
+    })
+})
@@ -0,0 +1,150 @@
+import {struct, u64, u8} from '@subsquid/borsh'
+import assert from 'node:assert/strict'
+import {describe, it} from 'node:test'
+import {EVENT_CPI_TAG} from '../src/abi/abi.support'
+import * as systemProgram from '../src/abi/system-program'
+import * as tokenProgram from '../src/abi/token-program'
+import * as whirlpool from '../src/abi/whirlpool'
+import {augmentBlock} from '../src/augment'
+import {getInstructionTokenFlow, getTransactionTokenFlow, TokenFlow} from '../src/token-flow'
+import {account, base58, encode} from './util'
+
+
+const Amount = struct({amount: u64})
+const CheckedWithFee = struct({amount: u64, decimals: u8, fee: u64})
+const Lamports = struct({lamports: u64})
+
+
+const WALLET = account(1)
+const POOL = account(3)
+const TIP = account(4)
+const USDC = account(20)
+const WSOL = account(21)
+const WALLET_USDC = account(10)
+const WALLET_WSOL = account(11)
+const VAULT_USDC = account(14)
+const VAULT_WSOL = account(15)
+
+
+function ins(instructionAddress: number[], programId: string, accounts: string[], data: Uint8Array) {
+    return {transactionIndex: 0, instructionAddress, programId, accounts, data: base58(data)}
+}
+
+
+function tokenBalance(account: string, mint: string, owner: string, preAmount: bigint, postAmount: bigint) {
+    return {transactionIndex: 0, account, preMint: mint, postMint: mint, preOwner: owner, postOwner: owner, preAmount, postAmount}
+}
+
+
+/**
+ * Whirlpool swap of 1 USDC for 0.005 SOL (as wrapped SOL) followed by a tip transfer,
+ * laid out as the portal returns it.
+ */
+function swapBlock() {
+    return augmentBlock({
+        header: {number: 1},
+        transactions: [{transactionIndex: 0}],
+        instructions: [
+            ins([0], whirlpool.programId, [
+                tokenProgram.programId, WALLET, POOL, WALLET_USDC, VAULT_USDC, WALLET_WSOL, VAULT_WSOL
+            ], Buffer.from(whirlpool.instructions.swap.d8.slice(2), 'hex')),
+            ins([0, 0], tokenProgram.programId, [WALLET_USDC, VAULT_USDC, WALLET], encode('0x03', Amount, {amount: 1_000_000n})),
+            ins([0, 1], tokenProgram.programId, [VAULT_WSOL, WALLET_WSOL, POOL], encode('0x03', Amount, {amount: 5_000_000n})),
+            ins([0, 2], whirlpool.programId, [POOL], encode(EVENT_CPI_TAG, Amount, {amount: 0n})),
+            ins([1], systemProgram.programId, [WALLET, TIP], encode('0x02000000', Lamports, {lamports: 10_000n}))
+        ],
+        tokenBalances: [
+            tokenBalance(WALLET_USDC, USDC, WALLET, 3_000_000n, 2_000_000n),
+            tokenBalance(VAULT_USDC, USDC, POOL, 100_000_000n, 101_000_000n),
+            tokenBalance(WALLET_WSOL, WSOL, WALLET, 0n, 5_000_000n),
+            tokenBalance(VAULT_WSOL, WSOL, POOL, 900_000_000n, 895_000_000n)
+        ],
+        balances: [
+            // the transaction fee is 5000 lamports
+            {transactionIndex: 0, account: WALLET, pre: 1_000_000_000n, post: 999_985_000n},
+            {transactionIndex: 0, account: TIP, pre: 0n, post: 10_000n}
+        ]
+    })
+}
+
+
+function sorted(flow: TokenFlow): TokenFlow {
+    return {
+        tokens: flow.tokens.slice().sort((a, b) => `${a.owner}:${a.mint}`.localeCompare(`${b.owner}:${b.mint}`)),
+        sol: flow.sol.slice().sort((a, b) => a.account.localeCompare(b.account))
+    }
+}
+
+
+const SWAP_TOKENS = [
+    {owner: WALLET, mint: USDC, amount: -1_000_000n},
+    {owner: POOL, mint: USDC, amount: 1_000_000n},
+    {owner: WALLET, mint: WSOL, amount: 5_000_000n},
+    {owner: POOL, mint: WSOL, amount: -5_000_000n}
+]
+
+
+describe('token flow', () => {
+    it('computes the transaction flow from balances, including the fee', () => {
+        let block = swapBlock()
+        assert.deepEqual(sorted(getTransactionTokenFlow(block.transactions[0])), sorted({
+            tokens: SWAP_TOKENS,
+            sol: [
+                {account: WALLET, amount: -15_000n},
+                {account: TIP, amount: 10_000n}
+            ]
+        }))
+    })
+
+    it('computes the instruction flow from inner transfers', () => {
+        let block = swapBlock()
+        let [swap, , , , tip] = block.instructions
+        assert.deepEqual(sorted(getInstructionTokenFlow(swap)), sorted({tokens: SWAP_TOKENS, sol: []}))
+        assert.deepEqual(getInstructionTokenFlow(tip), {
+            tokens: [],
+            sol: [
+                {account: WALLET, amount: -10_000n},
+                {account: TIP, amount: 10_000n}
+            ]
+        })
+    })
+
+    it('accounts mints, burns and withheld transfer fees', () => {
+        let block = augmentBlock({
+            header: {number: 1},
+            transactions: [{transactionIndex: 0}],
+            instructions: [
+                ins([0], account(40), [], new Uint8Array([1])),
+                ins([0, 0], tokenProgram.programId, [USDC, WALLET_USDC, POOL], encode('0x07', Amount, {amount: 7n})),
+                ins([0, 1], tokenProgram.programId, [VAULT_USDC, USDC, POOL], encode('0x08', Amount, {amount: 3n})),
+                ins([0, 2], tokenProgram.token2022ProgramId, [VAULT_WSOL, WSOL, WALLET_WSOL, POOL], encode('0x1a01', CheckedWithFee, {amount: 10n, decimals: 9, fee: 1n}))
+            ],
+            tokenBalances: [
+                tokenBalance(WALLET_USDC, USDC, WALLET, 0n, 0n),
+                tokenBalance(VAULT_USDC, USDC, POOL, 0n, 0n),
+                tokenBalance(WALLET_WSOL, WSOL, WALLET, 0n, 0n),
+                tokenBalance(VAULT_WSOL, WSOL, POOL, 0n, 0n)
+            ]
+        })
+        assert.deepEqual(sorted(getInstructionTokenFlow(block.instructions[0])), sorted({
+            tokens: [
+                {owner: WALLET, mint: USDC, amount: 7n},
+                {owner: POOL, mint: USDC, amount: -3n},
+                {owner: POOL, mint: WSOL, amount: -10n},
+                {owner: WALLET, mint: WSOL, amount: 9n}
+            ],
+            sol: []
+        }))
+    })
+
+    it('skips transfers, which mint is not known, when token balances are not fetched', () => {
+        let block = augmentBlock({
+            header: {number: 1},
+            transactions: [{transactionIndex: 0}],
+            instructions: [
+                ins([0], tokenProgram.programId, [WALLET_USDC, VAULT_USDC, WALLET], encode('0x03', Amount, {amount: 1n}))
+            ]
+        })
+        assert.deepEqual(getInstructionTokenFlow(block.instructions[0]), {tokens: [], sol: []})
+    })
+})
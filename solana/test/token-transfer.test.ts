@@ -0,0 +1,92 @@
+import {struct, u64, u8} from '@subsquid/borsh'
+import assert from 'node:assert/strict'
+import {describe, it} from 'node:test'
+import * as tokenProgram from '../src/abi/token-program'
+import {augmentBlock} from '../src/augment'
+import {decodeTokenTransfer} from '../src/token-transfer'
+import {account, base58, encode} from './util'
+
+
+const Amount = struct({amount: u64})
+const Checked = struct({amount: u64, decimals: u8})
+const CheckedWithFee = struct({amount: u64, decimals: u8, fee: u64})
+
+
+const WALLET = account(1)
+const RECIPIENT = account(2)
+const USDC = account(20)
+const PYUSD = account(21)
+const SOURCE = account(10)
+const DESTINATION = account(11)
+const SOURCE_2022 = account(12)
+const DESTINATION_2022 = account(13)
+
+
+function ins(address: number, programId: string, accounts: string[], data: Uint8Array) {
+    return {transactionIndex: 0, instructionAddress: [address], programId, accounts, data: base58(data)}
+}
+
+
+describe('decodeTokenTransfer', () => {
+    let block = augmentBlock({
+        header: {number: 1},
+        transactions: [{transactionIndex: 0}],
+        instructions: [
+            ins(0, tokenProgram.programId, [SOURCE, DESTINATION, WALLET], encode('0x03', Amount, {amount: 100n})),
+            ins(1, tokenProgram.token2022ProgramId, [SOURCE_2022, PYUSD, DESTINATION_2022, WALLET], encode('0x0c', Checked, {amount: 50n, decimals: 6})),
+            ins(2, tokenProgram.token2022ProgramId, [SOURCE_2022, PYUSD, DESTINATION_2022, WALLET], encode('0x1a01', CheckedWithFee, {amount: 50n, decimals: 6, fee: 2n})),
+            ins(3, tokenProgram.programId, [account(30), account(31), WALLET], encode('0x03', Amount, {amount: 1n})),
+            ins(4, tokenProgram.programId, [USDC, DESTINATION, WALLET], encode('0x07', Amount, {amount: 1n})),
+            ins(5, account(40), [SOURCE, DESTINATION, WALLET], encode('0x03', Amount, {amount: 1n}))
+        ],
+        tokenBalances: [
+            {transactionIndex: 0, account: SOURCE, preMint: USDC, postMint: USDC, preOwner: WALLET, postOwner: WALLET},
+            // the destination account is created by the transaction
+            {transactionIndex: 0, account: DESTINATION, postMint: USDC, postOwner: RECIPIENT},
+            {transactionIndex: 0, account: SOURCE_2022, preMint: PYUSD, postMint: PYUSD, preOwner: WALLET, postOwner: WALLET},
+            {transactionIndex: 0, account: DESTINATION_2022, preMint: PYUSD, postMint: PYUSD, preOwner: RECIPIENT, postOwner: RECIPIENT}
+        ]
+    })
+
+    it('decodes transfer, resolving the mint and owners from token balances', () => {
+        assert.deepEqual(decodeTokenTransfer(block.instructions[0]), {
+            programId: tokenProgram.programId,
+            mint: USDC,
+            source: SOURCE,
+            sourceOwner: WALLET,
+            destination: DESTINATION,
+            destinationOwner: RECIPIENT,
+            amount: 100n,
+            fee: 0n
+        })
+    })
+
+    it('decodes transferChecked of Token-2022 with unknown fee', () => {
+        assert.deepEqual(decodeTokenTransfer(block.instructions[1]), {
+            programId: tokenProgram.token2022ProgramId,
+            mint: PYUSD,
+            source: SOURCE_2022,
+            sourceOwner: WALLET,
+            destination: DESTINATION_2022,
+            destinationOwner: RECIPIENT,
+            amount: 50n,
+            fee: undefined
+        })
+    })
+
+    it('decodes transferCheckedWithFee', () => {
+        let transfer = decodeTokenTransfer(block.instructions[2])
+        assert.equal(transfer?.mint, PYUSD)
+        assert.equal(transfer?.amount, 50n)
+        assert.equal(transfer?.fee, 2n)
+    })
+
+    it('skips transfers, which mint is not known from token balances', () => {
+        assert.equal(decodeTokenTransfer(block.instructions[3]), undefined)
+    })
+
+    it('ignores other instructions and programs', () => {
+        assert.equal(decodeTokenTransfer(block.instructions[4]), undefined)
+        assert.equal(decodeTokenTransfer(block.instructions[5]), undefined)
+    })
+})
@@ -0,0 +1,26 @@
+import {Codec, Sink, Src} from '@subsquid/borsh'
+import {Base58Bytes, Bytes} from '../src/abi/abi.support'
+
+
+export function base58(data: Uint8Array): Base58Bytes {
+    return new Src(data).base58(data.length)
+}
+
+
+/**
+ * Deterministic account address, which bytes are all equal to `n`
+ */
+export function account(n: number): Base58Bytes {
+    return base58(new Uint8Array(32).fill(n))
+}
+
+
+/**
+ * Encode data of an instruction or an event with the given discriminator prefix
+ */
+export function encode<T>(discriminator: Bytes, codec: Codec<T>, value: T): Uint8Array {
+    let sink = new Sink()
+    sink.bytes(Buffer.from(discriminator.slice(2), 'hex'))
+    codec.encode(sink, value)
+    return sink.result()
+}